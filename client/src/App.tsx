@@ -4,12 +4,18 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import TextAnalyzer from "@/pages/analyzer";
+import AdminQueuePage from "@/pages/admin-queue";
+import UsagePage from "@/pages/usage";
+import ProtocolsPage from "@/pages/protocols";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={TextAnalyzer} />
+      <Route path="/admin/queue" component={AdminQueuePage} />
+      <Route path="/usage" component={UsagePage} />
+      <Route path="/protocols" component={ProtocolsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,16 +1,59 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
-import { Scissors } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Scissors } from "lucide-react";
+import type { ChunkRequest, ChunkStrategy } from "@shared/schema";
 import type { TextChunk } from "@/lib/analysisTypes";
+import { useEffect, useState } from "react";
+
+export type ChunkOptions = Omit<ChunkRequest, "text">;
 
 interface ChunkSelectorProps {
   chunks: TextChunk[];
   onChunksChange: (chunks: TextChunk[]) => void;
+  // The text the chunks were cut from, for the boundary preview
+  text: string;
+  options: ChunkOptions;
+  onOptionsChange: (options: ChunkOptions) => void;
+  isChunking?: boolean;
 }
 
-export default function ChunkSelector({ chunks, onChunksChange }: ChunkSelectorProps) {
+const STRATEGY_LABELS: Record<ChunkStrategy, string> = {
+  paragraph: "Whole paragraphs",
+  sentence: "Whole sentences",
+  heading: "Sections by heading",
+  fixed: "Fixed word count"
+};
+
+const BOUNDARY_CONTEXT = 80;
+
+export default function ChunkSelector({ chunks, onChunksChange, text, options, onOptionsChange, isChunking }: ChunkSelectorProps) {
   const selectedCount = chunks.filter(chunk => chunk.selected).length;
+  const [showBoundaries, setShowBoundaries] = useState(false);
+  // Sizes are applied on blur so typing does not re-chunk on every keystroke
+  const [targetWords, setTargetWords] = useState(String(options.targetWords));
+  const [overlapWords, setOverlapWords] = useState(String(options.overlapWords ?? 0));
+
+  useEffect(() => {
+    setTargetWords(String(options.targetWords));
+    setOverlapWords(String(options.overlapWords ?? 0));
+  }, [options]);
+
+  const applySizes = () => {
+    const target = Number(targetWords);
+    const overlap = Number(overlapWords);
+    if (!Number.isInteger(target) || target < 50 || !Number.isInteger(overlap) || overlap < 0 || overlap >= target) {
+      setTargetWords(String(options.targetWords));
+      setOverlapWords(String(options.overlapWords ?? 0));
+      return;
+    }
+    if (target !== options.targetWords || overlap !== (options.overlapWords ?? 0)) {
+      onOptionsChange({ ...options, targetWords: target, overlapWords: options.strategy === "fixed" ? overlap : undefined });
+    }
+  };
 
   const toggleChunk = (chunkId: string) => {
     const updatedChunks = chunks.map(chunk => 
@@ -44,6 +87,90 @@ export default function ChunkSelector({ chunks, onChunksChange }: ChunkSelectorP
             )}
           </div>
         </div>
+
+        <div className="flex flex-wrap items-end gap-2 mb-3">
+          <div>
+            <Label className="text-xs mb-1 block">Split into</Label>
+            <Select
+              value={options.strategy}
+              onValueChange={(strategy) => onOptionsChange({
+                ...options,
+                strategy: strategy as ChunkStrategy,
+                overlapWords: strategy === "fixed" ? options.overlapWords : undefined
+              })}
+            >
+              <SelectTrigger className="h-7 w-40 text-xs" data-testid="select-chunk-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STRATEGY_LABELS) as ChunkStrategy[]).map(strategy => (
+                  <SelectItem key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs mb-1 block">Target words</Label>
+            <Input
+              type="number"
+              min={50}
+              step={50}
+              className="h-7 w-24 text-xs"
+              value={targetWords}
+              onChange={(e) => setTargetWords(e.target.value)}
+              onBlur={applySizes}
+              data-testid="input-chunk-target"
+            />
+          </div>
+          {options.strategy === "fixed" && (
+            <div>
+              <Label className="text-xs mb-1 block">Overlap words</Label>
+              <Input
+                type="number"
+                min={0}
+                className="h-7 w-20 text-xs"
+                value={overlapWords}
+                onChange={(e) => setOverlapWords(e.target.value)}
+                onBlur={applySizes}
+                data-testid="input-chunk-overlap"
+              />
+            </div>
+          )}
+          {isChunking && <Loader2 className="h-4 w-4 mb-1.5 animate-spin text-primary" />}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs ml-auto"
+            onClick={() => setShowBoundaries(shown => !shown)}
+            disabled={chunks.length < 2}
+            data-testid="button-show-boundaries"
+          >
+            {showBoundaries ? "Hide boundaries" : "Preview boundaries"}
+          </Button>
+        </div>
+
+        {showBoundaries && (
+          <div className="space-y-2 max-h-48 overflow-y-auto mb-3 text-xs" data-testid="chunk-boundaries">
+            {chunks.slice(1).map((chunk, index) => {
+              const previous = chunks[index];
+              return (
+                <div key={chunk.id} className="border border-dashed border-border rounded-md p-2">
+                  <div className="text-muted-foreground mb-1">{previous.title} → {chunk.title}</div>
+                  <p className="whitespace-pre-wrap break-words">
+                    <span className="text-muted-foreground">…{text.slice(Math.max(previous.start, previous.end - BOUNDARY_CONTEXT), previous.end)}</span>
+                    {/* Fixed chunks with overlap start before the previous one ends */}
+                    {chunk.start < previous.end ? (
+                      <span className="mx-1 font-semibold text-primary">[overlap {previous.end - chunk.start} chars]</span>
+                    ) : (
+                      <span className="mx-1 font-semibold text-primary">‖</span>
+                    )}
+                    <span>{text.slice(chunk.start, Math.min(chunk.end, chunk.start + BOUNDARY_CONTEXT))}…</span>
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
         
         <div className="space-y-1 max-h-32 overflow-y-auto">
           {chunks.map((chunk) => (
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import type { AnalysisResult, Consensus, ScoreSpread } from "@shared/schema";
+
+interface ConsensusPanelProps {
+  consensus: Consensus;
+  getProviderLabel: (provider: string) => string;
+}
+
+function formatScore(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+export default function ConsensusPanel({ consensus, getProviderLabel }: ConsensusPanelProps) {
+  const [selectedResultId, setSelectedResultId] = useState<string | null>(null);
+
+  // Each member's full result is stored server-side; fetched only when the user drills into it
+  const { data: memberResult, isLoading } = useQuery<AnalysisResult>({
+    queryKey: ["/api/results", selectedResultId],
+    enabled: selectedResultId !== null
+  });
+
+  const renderSpread = (spread: ScoreSpread) => (
+    <>
+      {Object.entries(spread.scores).map(([provider, score]) => (
+        <span key={provider} className="mr-2">{getProviderLabel(provider)} {score}</span>
+      ))}
+      <span className="mr-2">· mean {formatScore(spread.mean)}, median {formatScore(spread.median)}</span>
+      {spread.disagreement ? (
+        <Badge variant="destructive" className="text-xs font-normal">Spread {spread.spread}</Badge>
+      ) : (
+        <span>spread {spread.spread}</span>
+      )}
+    </>
+  );
+
+  return (
+    <div className="mb-6 border border-border rounded-md p-4" data-testid="consensus-panel">
+      <h4 className="text-sm font-semibold text-card-foreground mb-2">
+        Consensus of {consensus.members.length} providers
+      </h4>
+      <div className="text-xs text-muted-foreground mb-3" data-testid="consensus-overall">
+        Overall: {renderSpread(consensus.overall)}
+      </div>
+
+      <div className="space-y-1 mb-3">
+        {consensus.questions.map((question, index) => (
+          <div key={index} className="text-xs" data-testid={`consensus-question-${index}`}>
+            <div className="text-card-foreground">{question.question}</div>
+            <div className="text-muted-foreground">{renderSpread(question)}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mb-2">
+        Questions whose scores differ by more than {consensus.threshold} points are flagged.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {consensus.members.map((member) => (
+          <Button
+            key={member.provider}
+            variant={member.resultId && member.resultId === selectedResultId ? "default" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            disabled={!member.resultId}
+            title={member.error}
+            onClick={() => setSelectedResultId(current => current === member.resultId ? null : member.resultId!)}
+            data-testid={`button-consensus-member-${member.provider}`}
+          >
+            {getProviderLabel(member.provider)}: {member.error ? "failed" : `${member.overallScore}/100`}
+          </Button>
+        ))}
+      </div>
+
+      {selectedResultId && (
+        <div className="mt-3 pt-3 border-t border-border" data-testid="consensus-member-result">
+          {isLoading || !memberResult ? (
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          ) : (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">{memberResult.summary}</p>
+              {memberResult.questions.map((question, index) => (
+                <div key={index} className="text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium text-card-foreground">{question.question}</span>
+                    <span className="font-bold text-primary flex-shrink-0">{question.score}/100</span>
+                  </div>
+                  <div className="text-muted-foreground whitespace-pre-wrap">{question.answer}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
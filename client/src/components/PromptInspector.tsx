@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Loader2 } from "lucide-react";
+import type { AnalysisRequest, PromptPreview } from "@shared/schema";
+
+interface PromptInspectorProps {
+  // The request to preview; the dialog is open while it is set
+  request: AnalysisRequest | null;
+  onClose: () => void;
+}
+
+// The exact prompts a request would send, per call, as built by the server without calling a provider
+export default function PromptInspector({ request, onClose }: PromptInspectorProps) {
+  const { toast } = useToast();
+  const [openCall, setOpenCall] = useState(0);
+
+  const { data: preview, error, isLoading } = useQuery<PromptPreview>({
+    queryKey: ["/api/prompt-preview", request],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/prompt-preview", request);
+      return await response.json() as PromptPreview;
+    },
+    enabled: request !== null
+  });
+
+  const copyPrompt = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: "Prompt copied", description: `${text.length.toLocaleString()} characters copied to clipboard` });
+    } catch (error) {
+      toast({ title: "Copy failed", description: "Could not copy the prompt to clipboard", variant: "destructive" });
+    }
+  };
+
+  const sizeOf = (characters: number, tokens: number) => `${characters.toLocaleString()} chars · ~${tokens.toLocaleString()} tokens`;
+
+  return (
+    <Dialog open={request !== null} onOpenChange={(open) => { if (!open) { setOpenCall(0); onClose(); } }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Inspect prompt</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `${preview.protocol.name} v${preview.protocol.version} · ${preview.totals.calls} call${preview.totals.calls === 1 ? "" : "s"} · ${sizeOf(preview.totals.characters, preview.totals.tokens)}`
+              : "The exact text each call sends, word for word"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        {error && (
+          <p className="text-sm text-red-600" data-testid="text-prompt-preview-error">
+            {error instanceof Error ? error.message : "Failed to build the prompt preview"}
+          </p>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            {preview.calls.map((call, index) => (
+              <div key={call.chunkId ?? index} className="border border-border rounded-md">
+                <button
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm hover:bg-muted"
+                  onClick={() => setOpenCall(current => current === index ? -1 : index)}
+                  data-testid={`button-prompt-call-${index}`}
+                >
+                  <span className="font-medium">{call.chunkTitle}</span>
+                  <span className="text-xs text-muted-foreground">{sizeOf(call.characters, call.tokens)}</span>
+                </button>
+
+                {openCall === index && (
+                  <div className="border-t border-border p-3 space-y-3">
+                    {[{ role: "system", label: "System prompt", text: call.systemPrompt }, { role: "user", label: "User prompt", text: call.prompt }].map(({ role, label, text }) => (
+                      <div key={role}>
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-xs font-semibold">{label}</span>
+                          {text ? (
+                            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => copyPrompt(text)}>
+                              <Copy className="h-3 w-3 mr-1" />
+                              Copy
+                            </Button>
+                          ) : (
+                            <Badge variant="outline" className="text-xs font-normal">None sent</Badge>
+                          )}
+                        </div>
+                        {text && (
+                          <pre className="whitespace-pre-wrap break-words text-xs bg-muted rounded-md p-2 max-h-96 overflow-y-auto" data-testid={`text-${role}-prompt-${index}`}>
+                            {text}
+                          </pre>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {preview.notes.length > 0 && (
+              <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-1">
+                {preview.notes.map(note => <li key={note}>{note}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Brain, Copy, FileText, Loader2, MessageCircle, RefreshCw } from "lucide-react";
+import { Brain, Copy, FileText, Loader2, MessageCircle, RefreshCw, ScanText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import ConsensusPanel from "./ConsensusPanel";
+import ScoreErrorBar from "./ScoreErrorBar";
+import SynthesisPanel from "./SynthesisPanel";
 import type { AnalysisResult } from "@shared/schema";
 import { useState } from "react";
 
@@ -11,6 +14,7 @@ interface ResultsDisplayProps {
   result: AnalysisResult | null;
   isAnalyzing: boolean;
   currentLLM: string;
+  getProviderLabel?: (provider: string) => string;
   streamingStatus?: string;
   streamingPhase?: string;
   streamingText?: string;
@@ -18,11 +22,16 @@ interface ResultsDisplayProps {
   onCritiqueAnalysis?: (critique: string) => void;
   isCritiqueAnalyzing?: boolean;
   onMetaAnalysis?: (result: AnalysisResult) => void;
+  onRetryFailedChunks?: (result: AnalysisResult) => void;
+  // Show the prompts a critique regeneration or a meta-analysis would send
+  onInspectCritique?: (critique: string) => void;
+  onInspectMetaAnalysis?: (result: AnalysisResult) => void;
 }
 
-export default function ResultsDisplay({ result, isAnalyzing, currentLLM, streamingStatus, streamingPhase, streamingText, showStreamingText, onCritiqueAnalysis, isCritiqueAnalyzing, onMetaAnalysis }: ResultsDisplayProps) {
+export default function ResultsDisplay({ result, isAnalyzing, currentLLM, getProviderLabel = (provider) => provider, streamingStatus, streamingPhase, streamingText, showStreamingText, onCritiqueAnalysis, isCritiqueAnalyzing, onMetaAnalysis, onRetryFailedChunks, onInspectCritique, onInspectMetaAnalysis }: ResultsDisplayProps) {
   const { toast } = useToast();
   const [critique, setCritique] = useState("");
+  const failedChunks = result?.chunkOutcomes?.filter(outcome => outcome.error) ?? [];
 
   const handleCritiqueSubmit = () => {
     if (!critique.trim()) {
@@ -64,7 +73,32 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
     text += `========================\n\n`;
     text += `Analysis Mode: ${result.mode}\n`;
     text += `LLM Provider: ${result.llmProvider}\n`;
+    if (result.providerUsed && result.providerUsed !== result.llmProvider) {
+      text += `Provider Used: ${result.providerUsed} (fallback)\n`;
+    }
+    if (result.generation) {
+      text += `Model: ${result.generation.model}\n`;
+    }
+    if (result.protocol) {
+      text += `Protocol: ${result.protocol.name} (${result.protocol.id} v${result.protocol.version})\n`;
+    }
+    if (result.fromCache && result.cachedAt) {
+      text += `Served From Cache: originally analyzed ${new Date(result.cachedAt).toLocaleString()}\n`;
+    }
+    if (result.outputPath) {
+      text += `Output Parsed From: ${result.outputPath}${result.repairAttempts ? ` (after ${result.repairAttempts} repair attempts)` : ''}\n`;
+    }
+    if (result.consensus) {
+      text += `Consensus: ${result.consensus.members.map(m => `${m.provider} ${m.error ? 'failed' : `${m.overallScore}/100`}`).join(', ')} (spread ${result.consensus.overall.spread})\n`;
+    }
     text += `Overall Score: ${result.overallScore}/100\n`;
+    if (result.sampling) {
+      const { overall } = result.sampling;
+      text += `Sampling: ${result.sampling.runs} runs, mean ${overall.mean.toFixed(1)} ± ${overall.sd.toFixed(1)}, ${Math.round(result.sampling.confidenceLevel * 100)}% interval ${overall.interval[0].toFixed(1)}-${overall.interval[1].toFixed(1)}\n`;
+    }
+    if (result.synthesis && result.synthesis.levels[0].length > 1) {
+      text += `Synthesis: ${result.synthesis.method === "model" ? `model, ${result.synthesis.levels.length - 1} levels` : "averaged"} over ${result.synthesis.levels[0].length} chunks\n`;
+    }
     text += `Timestamp: ${new Date(result.timestamp).toLocaleString()}\n\n`;
     
     text += `SUMMARY\n`;
@@ -140,11 +174,118 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
                     </div>
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    Analyzed by <span className="font-medium">{currentLLM}</span> • 
+                    Analyzed by <span className="font-medium">{getProviderLabel(result.providerUsed || result.llmProvider)}</span>
+                    {result.generation && (
+                      <span className="ml-1" data-testid="text-model">({result.generation.model})</span>
+                    )}
+                    {result.providerUsed && result.providerUsed !== result.llmProvider && (
+                      <span className="ml-1">(fallback from {getProviderLabel(result.llmProvider)})</span>
+                    )} • 
                     <span className="ml-1">{new Date(result.timestamp).toLocaleString()}</span>
+                    {result.protocol && (
+                      <span className="ml-1" title={`Protocol ${result.protocol.id}, version ${result.protocol.version}`} data-testid="text-protocol">
+                        • {result.protocol.name} v{result.protocol.version}
+                      </span>
+                    )}
+                    {result.fromCache && (
+                      <Badge variant="outline" className="ml-2 text-xs font-normal" data-testid="badge-cached">
+                        Cached{result.cachedAt ? ` · originally ${new Date(result.cachedAt).toLocaleString()}` : ""}
+                      </Badge>
+                    )}
+                    {result.outputPath && result.outputPath !== "structured-output" && (
+                      <Badge
+                        variant="outline"
+                        className="ml-2 text-xs font-normal"
+                        title="The provider did not return schema-checked output, so the result was read from its free-text answer"
+                        data-testid="badge-output-path"
+                      >
+                        {result.outputPath === "json-text" ? "Parsed from text" : "Recovered from malformed output"}
+                      </Badge>
+                    )}
+                    {result.repairAttempts ? (
+                      <Badge
+                        variant="outline"
+                        className="ml-2 text-xs font-normal"
+                        title="The first response did not match the expected structure and the model was asked to correct it"
+                        data-testid="badge-repaired"
+                      >
+                        Corrected after {result.repairAttempts} repair {result.repairAttempts === 1 ? "request" : "requests"}
+                      </Badge>
+                    ) : null}
                   </div>
+                  {result.sampling && (
+                    <div className="mt-2" data-testid="sampling-overall">
+                      <div className="text-xs text-muted-foreground mb-1">
+                        Overall score across {result.sampling.runs} runs
+                        {result.sampling.runs < result.sampling.requestedRuns ? ` (${result.sampling.requestedRuns - result.sampling.runs} failed)` : ""}
+                      </div>
+                      <ScoreErrorBar distribution={result.sampling.overall} confidenceLevel={result.sampling.confidenceLevel} />
+                    </div>
+                  )}
+                  {result.chunkOutcomes && result.chunkOutcomes.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2" data-testid="chunk-outcomes">
+                      {result.chunkOutcomes.map((outcome) => (
+                        <Badge
+                          key={outcome.chunkId}
+                          variant={outcome.error ? "destructive" : "outline"}
+                          className="text-xs font-normal"
+                          title={outcome.error}
+                        >
+                          {outcome.chunkTitle}: {outcome.error ? "failed" : getProviderLabel(outcome.provider || result.llmProvider)}{outcome.fromCache ? " (cached)" : ""}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {failedChunks.length > 0 && (
+                    <div className="flex items-center gap-2 mt-2" data-testid="failed-chunks">
+                      <span className="text-xs text-destructive">
+                        {failedChunks.length} of {result.chunkOutcomes!.length} chunks failed and are not included in these scores
+                      </span>
+                      {result.checkpointed && onRetryFailedChunks && !isAnalyzing && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => onRetryFailedChunks(result)}
+                          data-testid="button-retry-failed-chunks"
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          Retry failed chunks
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {result.chunkOutcomes?.some(outcome => outcome.sampling) && (
+                    <div className="mt-2 space-y-1" data-testid="chunk-sampling">
+                      {result.chunkOutcomes.filter(outcome => outcome.sampling).map((outcome) => (
+                        <div key={outcome.chunkId} className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground w-20 flex-shrink-0">{outcome.chunkTitle}</span>
+                          <ScoreErrorBar className="flex-1" distribution={outcome.sampling!.overall} confidenceLevel={outcome.sampling!.confidenceLevel} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {result.phases && result.phases.length > 1 && (
+                    <div className="text-xs text-muted-foreground mt-2" data-testid="assessment-phases">
+                      {result.phases.map((phase, index) => (
+                        <span key={phase.phase} title={phase.challenged ? `Challenged: ${phase.challenged.join(" / ")}` : undefined}>
+                          {index > 0 && " → "}
+                          <span className="capitalize">{phase.phase}</span> {phase.overallScore}/100
+                          {phase.challenged ? ` (${phase.challenged.length} challenged)` : ""}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
+                {result.consensus && (
+                  <ConsensusPanel consensus={result.consensus} getProviderLabel={getProviderLabel} />
+                )}
+
+                {result.synthesis && result.synthesis.levels[0].length > 1 && (
+                  <SynthesisPanel synthesis={result.synthesis} />
+                )}
+
                 {/* Text Summary */}
                 <div className="mb-6">
                   <h4 className="text-sm font-semibold text-card-foreground mb-2">Text Summary</h4>
@@ -165,21 +306,32 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
                 <div className="space-y-4">
                   <h4 className="text-sm font-semibold text-card-foreground">Detailed Assessment</h4>
                   
-                  {result.questions.map((question, index) => (
-                    <div key={index} className="border border-border rounded-md p-4" data-testid={`question-${index}`}>
-                      <div className="flex items-start justify-between mb-2">
-                        <h5 className="text-sm font-medium text-card-foreground leading-relaxed pr-4">
-                          {question.question}
-                        </h5>
-                        <span className="text-sm font-bold text-primary flex-shrink-0">
-                          {question.score}/100
-                        </span>
-                      </div>
-                      <div className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-                        {question.answer}
+                  {result.questions.map((question, index) => {
+                    // Long modes: the score before pushback, shown when reconciliation changed it
+                    const initialScore = result.phases?.[0]?.questions.find(q => q.question === question.question)?.score;
+                    const distribution = result.sampling?.questions.find(q => q.question === question.question);
+                    return (
+                      <div key={index} className="border border-border rounded-md p-4" data-testid={`question-${index}`}>
+                        <div className="flex items-start justify-between mb-2">
+                          <h5 className="text-sm font-medium text-card-foreground leading-relaxed pr-4">
+                            {question.question}
+                          </h5>
+                          <span className="text-sm font-bold text-primary flex-shrink-0">
+                            {question.score}/100
+                            {initialScore !== undefined && initialScore !== question.score && result.phases!.length > 1 && (
+                              <span className="ml-1 text-xs font-normal text-muted-foreground">(initially {initialScore})</span>
+                            )}
+                          </span>
+                        </div>
+                        {distribution && (
+                          <ScoreErrorBar className="mb-2" distribution={distribution} confidenceLevel={result.sampling!.confidenceLevel} />
+                        )}
+                        <div className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
+                          {question.answer}
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
 
                 {/* Final Assessment */}
@@ -214,7 +366,7 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
                         <span className="text-xs">Processing...</span>
                       </div>
                       <div className="mt-1 text-xs text-blue-600 dark:text-blue-400">
-                        Protocol chunks: 2s delays • Text chunks: 1s delays
+                        Protocol and text are announced in pieces before the model call
                       </div>
                     </div>
                   </div>
@@ -260,6 +412,18 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
                   Meta-Analysis
                 </Button>
               )}
+              {onMetaAnalysis && onInspectMetaAnalysis && (
+                <Button 
+                  variant="ghost" 
+                  size="sm"
+                  onClick={() => result && onInspectMetaAnalysis(result)}
+                  disabled={!result}
+                  title="Inspect the meta-analysis prompt"
+                  data-testid="button-inspect-meta-analysis"
+                >
+                  <ScanText className="h-4 w-4" />
+                </Button>
+              )}
               <Button 
                 variant="outline" 
                 size="sm"
@@ -310,24 +474,36 @@ export default function ResultsDisplay({ result, isAnalyzing, currentLLM, stream
               <div className="text-xs text-muted-foreground">
                 The regenerated analysis will use your original text with this critique as guidance.
               </div>
-              <Button 
-                onClick={handleCritiqueSubmit}
-                disabled={!critique.trim() || isCritiqueAnalyzing}
-                data-testid="button-regenerate"
-                className="ml-3"
-              >
-                {isCritiqueAnalyzing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Regenerating...
-                  </>
-                ) : (
-                  <>
-                    <RefreshCw className="mr-2 h-4 w-4" />
-                    Regenerate Analysis
-                  </>
+              <div className="flex items-center gap-2 ml-3">
+                {onInspectCritique && (
+                  <Button 
+                    variant="outline"
+                    onClick={() => onInspectCritique(critique)}
+                    disabled={!critique.trim()}
+                    data-testid="button-inspect-critique"
+                  >
+                    <ScanText className="mr-2 h-4 w-4" />
+                    Inspect prompt
+                  </Button>
                 )}
-              </Button>
+                <Button 
+                  onClick={handleCritiqueSubmit}
+                  disabled={!critique.trim() || isCritiqueAnalyzing}
+                  data-testid="button-regenerate"
+                >
+                  {isCritiqueAnalyzing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Regenerating...
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="mr-2 h-4 w-4" />
+                      Regenerate Analysis
+                    </>
+                  )}
+                </Button>
+              </div>
             </div>
           </CardContent>
         </Card>
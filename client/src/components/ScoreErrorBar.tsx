@@ -0,0 +1,34 @@
+import type { SampleDistribution } from "@shared/schema";
+
+interface ScoreErrorBarProps {
+  distribution: SampleDistribution;
+  confidenceLevel: number;
+  className?: string;
+}
+
+// Scores on a 0-100 track: the thin line spans min to max, the band the bootstrap interval, the tick the mean
+export default function ScoreErrorBar({ distribution, confidenceLevel, className = "" }: ScoreErrorBarProps) {
+  const { values, mean, sd, min, max, interval } = distribution;
+  const position = (score: number) => `${Math.min(100, Math.max(0, score))}%`;
+  const title = `Mean ${mean.toFixed(1)} ± ${sd.toFixed(1)} (sd) over ${values.length} runs; `
+    + `${Math.round(confidenceLevel * 100)}% interval ${interval[0].toFixed(1)}–${interval[1].toFixed(1)}; range ${min}–${max}; runs: ${values.join(", ")}`;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`} title={title} data-testid="score-error-bar">
+      <div className="relative h-3 flex-1 rounded bg-muted">
+        <div
+          className="absolute top-1/2 h-px bg-muted-foreground"
+          style={{ left: position(min), width: `calc(${position(max)} - ${position(min)})` }}
+        />
+        <div
+          className="absolute top-0.5 bottom-0.5 rounded-sm bg-primary/40"
+          style={{ left: position(interval[0]), width: `calc(${position(interval[1])} - ${position(interval[0])})` }}
+        />
+        <div className="absolute top-0 bottom-0 w-0.5 bg-primary" style={{ left: position(mean) }} />
+      </div>
+      <span className="text-xs text-muted-foreground flex-shrink-0 w-24 text-right">
+        {mean.toFixed(1)} ± {sd.toFixed(1)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Synthesis } from "@shared/schema";
+
+interface SynthesisPanelProps {
+  synthesis: Synthesis;
+}
+
+// The assessments a chunked result was built from, level by level, so the synthesis can be checked
+export default function SynthesisPanel({ synthesis }: SynthesisPanelProps) {
+  const [openLevel, setOpenLevel] = useState<number | null>(null);
+  const [chunks] = synthesis.levels;
+
+  const levelLabel = (level: number) => level === 0 ? `${chunks.length} chunks` : `Level ${level} (${synthesis.levels[level].length})`;
+
+  return (
+    <div className="mb-6 border border-border rounded-md p-4" data-testid="synthesis-panel">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-card-foreground">
+          {synthesis.method === "model"
+            ? `Synthesized from ${chunks.length} chunks in ${synthesis.levels.length - 1} ${synthesis.levels.length === 2 ? "step" : "steps"}`
+            : `Average of ${chunks.length} ${chunks.length === 1 ? "chunk" : "chunks"}`}
+        </h4>
+        {synthesis.error && (
+          <Badge variant="outline" className="text-xs font-normal" title={synthesis.error}>Synthesis failed</Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {/* The last level is the result shown above */}
+        {synthesis.levels.slice(0, synthesis.method === "model" ? -1 : undefined).map((_, level) => (
+          <Button
+            key={level}
+            variant={openLevel === level ? "default" : "outline"}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setOpenLevel(current => current === level ? null : level)}
+            data-testid={`button-synthesis-level-${level}`}
+          >
+            {levelLabel(level)}
+          </Button>
+        ))}
+      </div>
+
+      {openLevel !== null && (
+        <div className="mt-3 space-y-3 max-h-96 overflow-y-auto" data-testid="synthesis-level">
+          {synthesis.levels[openLevel].map((node, index) => (
+            <details key={index} className="text-xs border border-border rounded-md p-2">
+              <summary className="cursor-pointer">
+                <span className="font-medium text-card-foreground">{node.title}</span>
+                <span className="ml-2 font-bold text-primary">{node.overallScore}/100</span>
+                {node.sources.length > 1 && (
+                  <span className="ml-2 text-muted-foreground">covers {node.sources.length} chunks</span>
+                )}
+              </summary>
+              <p className="mt-2 text-muted-foreground">{node.summary}</p>
+              {node.questions.map((question, questionIndex) => (
+                <div key={questionIndex} className="mt-2">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-card-foreground">{question.question}</span>
+                    <span className="font-bold text-primary flex-shrink-0">{question.score}/100</span>
+                  </div>
+                  <div className="text-muted-foreground whitespace-pre-wrap">{question.answer}</div>
+                </div>
+              ))}
+              <p className="mt-2 text-muted-foreground">{node.finalAssessment}</p>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
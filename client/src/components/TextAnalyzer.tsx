@@ -1,32 +1,129 @@
-import { useState, useCallback, useEffect } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import ChunkSelector from "./ChunkSelector";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import ChunkSelector, { type ChunkOptions } from "./ChunkSelector";
 import ResultsDisplay from "./ResultsDisplay";
-import { Brain, Download, Upload, Trash2, FileText, RotateCcw } from "lucide-react";
-import type { AnalysisRequest, AnalysisResult, FileUpload } from "@shared/schema";
+import PromptInspector from "./PromptInspector";
+import { Brain, Download, Upload, Trash2, FileText, RotateCcw, SlidersHorizontal, BarChart3, BookOpen, ScanText } from "lucide-react";
+import type { AnalysisJob, AnalysisRequest, AnalysisResult, CostEstimate, FileUpload, GenerationParams, Protocol, ProtocolSummary, ProviderInfo } from "@shared/schema";
 import type { TextChunk } from "@/lib/analysisTypes";
+import { readServerEvents } from "@/lib/serverEvents";
+
+// Id of the background job being shown, so a reload can reattach to it
+const ACTIVE_JOB_KEY = "textAnalyzer.activeJob";
+const RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECTS = 5;
 
 export default function TextAnalyzer() {
   const [inputText, setInputText] = useState("");
   const [backgroundInfo, setBackgroundInfo] = useState("");
   const [selectedMode, setSelectedMode] = useState<AnalysisRequest["mode"]>("cognitive-short");
-  const [selectedLLM, setSelectedLLM] = useState<AnalysisRequest["llmProvider"]>("zhi1");
+  // Empty id: the mode's default protocol; no version: its latest
+  const [protocolId, setProtocolId] = useState("");
+  const [protocolVersion, setProtocolVersion] = useState<number | undefined>(undefined);
+  const [selectedLLM, setSelectedLLM] = useState<AnalysisRequest["llmProvider"]>("");
+  const [fallbackLLMs, setFallbackLLMs] = useState<string[]>([]);
+  const [consensusLLMs, setConsensusLLMs] = useState<string[]>([]);
+  const [generation, setGeneration] = useState<GenerationParams>({});
+  const [cachePolicy, setCachePolicy] = useState<NonNullable<AnalysisRequest["cachePolicy"]>>("use");
+  const [samples, setSamples] = useState<number | undefined>(undefined);
   const [chunks, setChunks] = useState<TextChunk[]>([]);
+  const [chunkOptions, setChunkOptions] = useState<ChunkOptions>({ strategy: "paragraph", targetWords: 1000 });
   const [currentResult, setCurrentResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isCritiqueAnalyzing, setIsCritiqueAnalyzing] = useState(false);
   const [streamingText, setStreamingText] = useState("");
   const [showStreamingText, setShowStreamingText] = useState(false);
+  const [pendingRun, setPendingRun] = useState<{ request: AnalysisRequest; estimate: CostEstimate } | null>(null);
+  // The request whose prompts the "Inspect prompt" dialog shows
+  const [inspectRequest, setInspectRequest] = useState<AnalysisRequest | null>(null);
   
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Providers are declared server-side in the provider registry; the probed list replaces the
+  // quick one once every provider has answered a test call
+  const { data: providerData } = useQuery<{ providers: ProviderInfo[] }>({
+    queryKey: ["/api/providers"]
+  });
+  const { data: probedProviderData } = useQuery<{ providers: ProviderInfo[] }>({
+    queryKey: ["/api/providers?probe=true"]
+  });
+  const modeType = selectedMode === "meta-analysis" ? "meta-analysis" : selectedMode.split("-")[0];
+  const { data: protocolData } = useQuery<{ protocols: ProtocolSummary[] }>({
+    queryKey: ["/api/protocols"]
+  });
+  const modeProtocols = useMemo(
+    () => (protocolData?.protocols ?? []).filter(protocol => protocol.modeType === modeType),
+    [protocolData, modeType]
+  );
+  const { data: selectedProtocol } = useQuery<Protocol>({
+    queryKey: ["/api/protocols", protocolId],
+    enabled: protocolId !== ""
+  });
+
+  // A protocol only applies to its own mode family
+  useEffect(() => {
+    if (protocolId && protocolData && !modeProtocols.some(protocol => protocol.id === protocolId)) {
+      setProtocolId("");
+      setProtocolVersion(undefined);
+    }
+  }, [protocolId, protocolData, modeProtocols]);
+
+  const providers = useMemo(
+    () => (probedProviderData ?? providerData)?.providers ?? [],
+    [probedProviderData, providerData]
+  );
+
+  // Default to the first usable provider, and move off one that turns out to be unusable
+  useEffect(() => {
+    if (providers.length > 0 && !providers.some(provider => provider.id === selectedLLM && provider.usable)) {
+      setSelectedLLM((providers.find(provider => provider.usable) ?? providers[0]).id);
+    }
+  }, [providers, selectedLLM]);
+
+  // Fallbacks are tried in the order they were ticked
+  const toggleFallback = (provider: string, checked: boolean) => {
+    setFallbackLLMs(current => checked ? [...current, provider] : current.filter(p => p !== provider));
+  };
+
+  const toggleConsensus = (provider: string, checked: boolean) => {
+    setConsensusLLMs(current => checked ? [...current, provider] : current.filter(p => p !== provider));
+  };
+
+  const selectedProvider = providers.find(provider => provider.id === selectedLLM);
+
+  // Empty inputs fall back to the provider's configured defaults
+  const updateGeneration = (field: keyof GenerationParams, value: string) => {
+    setGeneration(current => ({
+      ...current,
+      [field]: value.trim() === "" ? undefined : (field === "model" ? value : Number(value))
+    }));
+  };
+
+  const activeFallbacks = useMemo(
+    () => fallbackLLMs.filter(provider => provider !== selectedLLM),
+    [fallbackLLMs, selectedLLM]
+  );
+
+  // Ticking any other provider turns the run into a consensus of the selected provider and those
+  const consensusProviders = useMemo(() => {
+    const others = consensusLLMs.filter(provider => provider !== selectedLLM);
+    return others.length > 0 ? [selectedLLM, ...others] : undefined;
+  }, [consensusLLMs, selectedLLM]);
   
   // Add global error handler for unhandled promise rejections
   useEffect(() => {
@@ -50,6 +147,45 @@ export default function TextAnalyzer() {
   const charCount = inputText.length;
   const isChunkingRequired = wordCount > 1000;
 
+  // The request Analyze would send right now
+  const analysisRequest = useMemo<AnalysisRequest>(() => ({
+    text: inputText,
+    backgroundInfo: backgroundInfo.trim() || undefined,
+    mode: selectedMode,
+    protocolId: protocolId || undefined,
+    protocolVersion,
+    llmProvider: selectedLLM,
+    fallbackProviders: activeFallbacks.length > 0 ? activeFallbacks : undefined,
+    consensusProviders,
+    // A single run is the ordinary analysis
+    samples: samples !== undefined && samples >= 2 ? samples : undefined,
+    ...generation,
+    cachePolicy,
+    chunks: chunks.length > 0 ? chunks : undefined
+  }), [inputText, backgroundInfo, selectedMode, protocolId, protocolVersion, selectedLLM, activeFallbacks, consensusProviders, samples, generation, cachePolicy, chunks]);
+
+  const fetchEstimate = useCallback(async (request: AnalysisRequest) => {
+    const response = await apiRequest("POST", "/api/estimate", request);
+    return await response.json() as CostEstimate;
+  }, []);
+
+  // Re-estimate once typing pauses rather than on every keystroke
+  const [estimateRequest, setEstimateRequest] = useState<AnalysisRequest | null>(null);
+  useEffect(() => {
+    if (!analysisRequest.text.trim() || !analysisRequest.llmProvider) {
+      setEstimateRequest(null);
+      return;
+    }
+    const timer = setTimeout(() => setEstimateRequest(analysisRequest), 500);
+    return () => clearTimeout(timer);
+  }, [analysisRequest]);
+
+  const { data: estimate } = useQuery<CostEstimate>({
+    queryKey: ["/api/estimate", estimateRequest],
+    queryFn: () => fetchEstimate(estimateRequest!),
+    enabled: estimateRequest !== null
+  });
+
   // File upload mutation
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -63,7 +199,7 @@ export default function TextAnalyzer() {
       
       // Automatically chunk if text is over 1000 words
       if (data.wordCount > 1000) {
-        chunkMutation.mutate(data.content);
+        chunkMutation.mutate({ text: data.content });
       } else {
         setChunks([]);
       }
@@ -84,8 +220,8 @@ export default function TextAnalyzer() {
 
   // Chunk generation mutation
   const chunkMutation = useMutation({
-    mutationFn: async (text: string) => {
-      const response = await apiRequest("POST", "/api/chunk", { text });
+    mutationFn: async ({ text, options = chunkOptions }: { text: string; options?: ChunkOptions }) => {
+      const response = await apiRequest("POST", "/api/chunk", { text, ...options });
       return await response.json() as { chunks: TextChunk[] };
     },
     onSuccess: (data) => {
@@ -104,123 +240,111 @@ export default function TextAnalyzer() {
   const [streamingStatus, setStreamingStatus] = useState<string>("");
   const [streamingPhase, setStreamingPhase] = useState<string>("");
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
 
-  // Analysis with streaming using fetch (since we need POST request)
-  const performStreamingAnalysis = useCallback(async (request: AnalysisRequest) => {
-    // Create abort controller to allow cancellation
-    const controller = new AbortController();
-    setAbortController(controller);
-    setIsAnalyzing(true);
-    setStreamingStatus("Connecting...");
-    setStreamingPhase("");
-    setStreamingText("");
-    setShowStreamingText(false);
-    
-    try {
-      const response = await fetch('/api/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream',
-        },
-        body: JSON.stringify(request),
-        signal: controller.signal
+  // Applies one job event to the view; true once the final result has arrived
+  const applyJobUpdate = useCallback((update: any, job: AnalysisJob): boolean => {
+    if (update.type === 'status') {
+      setStreamingStatus(update.message);
+      setStreamingPhase(update.phase);
+    } else if (update.type === 'streaming_text') {
+      // Show real-time LLM response as it's being generated
+      setStreamingText(update.accumulated);
+      setShowStreamingText(true);
+      setStreamingStatus(`Generating analysis... (${update.accumulated.length} chars)`);
+    } else if (update.type === 'progress') {
+      // Show partial results as they come in
+      const partialResult: AnalysisResult = {
+        id: 'streaming',
+        mode: job.mode,
+        llmProvider: job.llmProvider,
+        ...update.result,
+        timestamp: new Date().toISOString(),
+        rawResponse: ''
+      };
+      setCurrentResult(partialResult);
+    } else if (update.type === 'complete') {
+      console.log('Analysis completed, final result:', update.result);
+      setCurrentResult(update.result);
+      toast({
+        title: update.result.cancelled ? "Analysis cancelled" : "Analysis completed",
+        description: `Overall score: ${update.result.overallScore}/100`
       });
+      return true;
+    }
+    return false;
+  }, [toast]);
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  // Follows the job's event stream to the end, reconnecting with Last-Event-ID after a dropped connection
+  const followJob = useCallback(async (job: AnalysisJob, signal: AbortSignal) => {
+    let lastEventId = 0;
+    let reconnects = 0;
+
+    while (true) {
+      const response = await fetch(`/api/jobs/${job.id}/events`, {
+        headers: { 'Accept': 'text/event-stream', 'Last-Event-ID': String(lastEventId) },
+        signal
+      }).catch((fetchError) => {
+        if (signal.aborted) throw fetchError;
+        return null;
+      });
 
-      if (!response.body) {
-        throw new Error('No response body');
+      if (response?.status === 404) {
+        throw new Error("This analysis is no longer available on the server");
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      
-      console.log('Starting to read streaming response...');
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read().catch((readError) => {
-            if (readError.name === 'AbortError') {
-              return { done: true, value: undefined };
-            }
-            throw readError;
-          });
-          
-          if (done) {
-            console.log('Stream completed');
-            break;
-          }
-          
-          const chunk = decoder.decode(value, { stream: true });
-          buffer += chunk;
-          
-          // Process complete lines
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // Keep incomplete line
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6).trim();
-              if (data) {
-                try {
-                  const update = JSON.parse(data);
-                  console.log('Received streaming update:', update);
-                  
-                  if (update.type === 'status') {
-                    setStreamingStatus(update.message);
-                    setStreamingPhase(update.phase);
-                  } else if (update.type === 'streaming_text') {
-                    // Show real-time LLM response as it's being generated
-                    setStreamingText(update.accumulated);
-                    setShowStreamingText(true);
-                    setStreamingStatus(`Generating analysis... (${update.accumulated.length} chars)`)
-                  } else if (update.type === 'progress') {
-                    // Show partial results as they come in
-                    const partialResult: AnalysisResult = {
-                      id: 'streaming',
-                      mode: request.mode,
-                      llmProvider: request.llmProvider,
-                      ...update.result,
-                      timestamp: new Date().toISOString(),
-                      rawResponse: ''
-                    };
-                    setCurrentResult(partialResult);
-                  } else if (update.type === 'complete') {
-                    console.log('Analysis completed, final result:', update.result);
-                    setCurrentResult(update.result);
-                    setIsAnalyzing(false);
-                    setStreamingStatus("");
-                    setStreamingPhase("");
-                    toast({
-                      title: "Analysis completed",
-                      description: `Overall score: ${update.result.overallScore}/100`
-                    });
-                    return;
-                  } else if (update.type === 'error') {
-                    throw new Error(update.error);
-                  }
-                } catch (parseError) {
-                  console.error('Error parsing streaming data:', parseError, 'Raw data:', data);
-                  // Continue processing other lines instead of stopping
-                }
-              }
+      let failure: string | undefined;
+      if (response?.ok && response.body) {
+        try {
+          for await (const event of readServerEvents(response.body)) {
+            if (event.id !== undefined) lastEventId = event.id;
+            reconnects = 0;
+            const update = JSON.parse(event.data);
+            if (update.type === 'error') {
+              failure = update.error;
+              break;
             }
+            if (applyJobUpdate(update, job)) return;
           }
+        } catch (readError) {
+          if (signal.aborted) throw readError;
+          console.warn('Job event stream dropped:', readError);
         }
-      } finally {
-        reader.releaseLock();
       }
-      
+      if (failure) throw new Error(failure);
+
+      if (++reconnects > MAX_RECONNECTS) {
+        throw new Error("Lost the connection to the analysis");
+      }
+      setStreamingStatus("Connection lost - reconnecting...");
+      await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+    }
+  }, [applyJobUpdate]);
+
+  // Starts or rejoins a background job and shows its progress; the job survives reloads and disconnects
+  const runJob = useCallback(async (openJob: () => Promise<AnalysisJob>) => {
+    // Aborting only stops following the job; cancelling it is a separate request
+    const controller = new AbortController();
+    setAbortController(controller);
+    setIsAnalyzing(true);
+    setStreamingStatus("Connecting...");
+    setStreamingPhase("");
+    setStreamingText("");
+    setShowStreamingText(false);
+    
+    try {
+      const job = await openJob();
+      setActiveJobId(job.id);
+      localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+      await followJob(job, controller.signal);
+      localStorage.removeItem(ACTIVE_JOB_KEY);
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
-        console.log('Analysis was cancelled by user');
+        console.log('Stopped following the analysis');
         return;
       }
       
+      localStorage.removeItem(ACTIVE_JOB_KEY);
       console.error('Streaming analysis failed:', error);
       toast({
         title: "Analysis failed",
@@ -229,11 +353,46 @@ export default function TextAnalyzer() {
       });
     } finally {
       setAbortController(null);
+      setActiveJobId(null);
       setIsAnalyzing(false);
       setStreamingStatus("");
       setStreamingPhase("");
+      // Pick up the latency and error stats from this run
+      queryClient.invalidateQueries({ queryKey: ["/api/providers?probe=true"] });
     }
-  }, [toast]);
+  }, [followJob, queryClient, toast]);
+
+  const performStreamingAnalysis = useCallback(async (request: AnalysisRequest) => {
+    await runJob(async () => {
+      const response = await apiRequest("POST", "/api/jobs", request);
+      return await response.json() as AnalysisJob;
+    });
+  }, [runJob]);
+
+  // After a reload, rejoin the job that was running; its events replay from the start
+  const resumedJob = useRef(false);
+  useEffect(() => {
+    const jobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId || resumedJob.current) return;
+    resumedJob.current = true;
+    runJob(async () => {
+      const response = await apiRequest("GET", `/api/jobs/${jobId}`);
+      return await response.json() as AnalysisJob;
+    });
+  }, [runJob]);
+
+  // The request that regenerates the analysis with the user's critique
+  const critiqueRequestFor = useCallback((critique: string): AnalysisRequest => ({
+    text: inputText,
+    backgroundInfo: backgroundInfo.trim() || undefined,
+    mode: selectedMode,
+    protocolId: protocolId || undefined,
+    protocolVersion,
+    llmProvider: selectedLLM,
+    fallbackProviders: activeFallbacks.length > 0 ? activeFallbacks : undefined,
+    ...generation,
+    critique: critique // Add critique to the request
+  }), [inputText, backgroundInfo, selectedMode, protocolId, protocolVersion, selectedLLM, activeFallbacks, generation]);
 
   // Handle critique-based analysis
   const performCritiqueAnalysis = useCallback(async (critique: string) => {
@@ -246,14 +405,7 @@ export default function TextAnalyzer() {
       return;
     }
 
-    const request: AnalysisRequest = {
-      text: inputText,
-      backgroundInfo: backgroundInfo.trim() || undefined,
-      mode: selectedMode,
-      llmProvider: selectedLLM,
-      critique: critique // Add critique to the request
-    };
-
+    const request = critiqueRequestFor(critique);
     setIsCritiqueAnalyzing(true);
     
     try {
@@ -267,7 +419,26 @@ export default function TextAnalyzer() {
     } finally {
       setIsCritiqueAnalyzing(false);
     }
-  }, [inputText, backgroundInfo, selectedMode, selectedLLM, currentResult, performStreamingAnalysis, toast]);
+  }, [inputText, currentResult, critiqueRequestFor, performStreamingAnalysis, toast]);
+
+  // The request that has the model evaluate an existing result
+  const metaAnalysisRequestFor = useCallback((result: AnalysisResult): AnalysisRequest => ({
+    text: inputText,
+    mode: "meta-analysis" as AnalysisRequest["mode"],
+    llmProvider: selectedLLM,
+    fallbackProviders: activeFallbacks.length > 0 ? activeFallbacks : undefined,
+    ...generation,
+    originalAnalysis: {
+      id: result.id,
+      summary: result.summary,
+      category: result.category,
+      questions: result.questions,
+      overallScore: result.overallScore,
+      finalAssessment: result.finalAssessment,
+      mode: result.mode,
+      llmProvider: result.llmProvider
+    }
+  }), [inputText, selectedLLM, activeFallbacks, generation]);
 
   // Handle meta-analysis of existing results
   const handleMetaAnalysis = useCallback(async (result: AnalysisResult) => {
@@ -281,23 +452,7 @@ export default function TextAnalyzer() {
     }
 
     try {
-      const analysisRequest: AnalysisRequest = {
-        text: inputText,
-        mode: "meta-analysis" as AnalysisRequest["mode"],
-        llmProvider: selectedLLM,
-        originalAnalysis: {
-          id: result.id,
-          summary: result.summary,
-          category: result.category,
-          questions: result.questions,
-          overallScore: result.overallScore,
-          finalAssessment: result.finalAssessment,
-          mode: result.mode,
-          llmProvider: result.llmProvider
-        }
-      };
-
-      await performStreamingAnalysis(analysisRequest);
+      await performStreamingAnalysis(metaAnalysisRequestFor(result));
       
     } catch (error) {
       console.error('Meta-analysis failed:', error);
@@ -307,7 +462,15 @@ export default function TextAnalyzer() {
         variant: "destructive"
       });
     }
-  }, [inputText, selectedLLM, toast, performStreamingAnalysis]);
+  }, [inputText, metaAnalysisRequestFor, toast, performStreamingAnalysis]);
+
+  // Re-runs only the failed chunks from the server's checkpoint; the new result replaces this one
+  const handleRetryFailedChunks = useCallback(async (result: AnalysisResult) => {
+    await runJob(async () => {
+      const response = await apiRequest("POST", `/api/results/${result.id}/retry-failed`);
+      return await response.json() as AnalysisJob;
+    });
+  }, [runJob]);
 
   const validateFile = (file: File): boolean => {
     const allowedTypes = [
@@ -348,7 +511,7 @@ export default function TextAnalyzer() {
     
     // Generate chunks if text is long enough
     if (text.trim().split(/\s+/).length > 1000) {
-      chunkMutation.mutate(text);
+      chunkMutation.mutate({ text });
     } else {
       setChunks([]);
     }
@@ -377,7 +540,7 @@ export default function TextAnalyzer() {
     }
   }, [processFile]);
 
-  const handleAnalyze = useCallback(() => {
+  const handleAnalyze = useCallback(async () => {
     if (!inputText.trim()) {
       toast({
         title: "No text to analyze",
@@ -402,7 +565,7 @@ export default function TextAnalyzer() {
       if (selectedChunks.length === 0) {
         toast({
           title: "No chunks selected",
-          description: "Please select at least one chunk to analyze. Sequential processing with 10-second delays will be used.",
+          description: "Please select at least one chunk to analyze. Selected chunks are processed sequentially.",
           variant: "destructive"
         });
         return;
@@ -412,21 +575,29 @@ export default function TextAnalyzer() {
       if (selectedChunks.length > 1) {
         toast({
           title: "Sequential processing initiated",
-          description: `Processing ${selectedChunks.length} chunks sequentially with 10-second delays between chunks`,
+          description: `Processing ${selectedChunks.length} chunks sequentially`,
         });
       }
     }
 
-    const request: AnalysisRequest = {
-      text: inputText,
-      backgroundInfo: backgroundInfo.trim() || undefined,
-      mode: selectedMode,
-      llmProvider: selectedLLM,
-      chunks: chunks.length > 0 ? chunks : undefined
-    };
+    // Expensive runs wait for confirmation; a failed estimate does not block the analysis itself
+    let currentEstimate: CostEstimate | undefined;
+    try {
+      currentEstimate = await queryClient.fetchQuery({
+        queryKey: ["/api/estimate", analysisRequest],
+        queryFn: () => fetchEstimate(analysisRequest)
+      });
+    } catch (error) {
+      console.warn("Cost estimate failed:", error);
+    }
+
+    if (currentEstimate?.requiresConfirmation) {
+      setPendingRun({ request: analysisRequest, estimate: currentEstimate });
+      return;
+    }
 
-    performStreamingAnalysis(request);
-  }, [inputText, backgroundInfo, selectedMode, selectedLLM, chunks, isChunkingRequired, performStreamingAnalysis, toast]);
+    performStreamingAnalysis(analysisRequest);
+  }, [inputText, analysisRequest, chunks, isChunkingRequired, performStreamingAnalysis, fetchEstimate, queryClient, toast]);
 
   // New Analysis function that clears everything and stops ongoing analysis
   const handleNewAnalysis = useCallback(() => {
@@ -435,6 +606,10 @@ export default function TextAnalyzer() {
       if (abortController) {
         abortController.abort();
       }
+      if (activeJobId) {
+        apiRequest("DELETE", `/api/jobs/${activeJobId}`).catch(error => console.error('Failed to cancel job:', error));
+      }
+      localStorage.removeItem(ACTIVE_JOB_KEY);
       
       // Clear all state
       setInputText("");
@@ -470,7 +645,7 @@ export default function TextAnalyzer() {
       setIsDragOver(false);
       setAbortController(null);
     }
-  }, [abortController, toast]);
+  }, [abortController, activeJobId, toast]);
 
   const handleDownload = useCallback(async () => {
     if (!currentResult) return;
@@ -498,51 +673,262 @@ export default function TextAnalyzer() {
   }, [currentResult, toast]);
 
   const getLLMDisplayName = (provider: string) => {
-    const names = {
-      zhi1: "ZHI 1",
-      zhi2: "ZHI 2", 
-      zhi3: "ZHI 3",
-      zhi4: "ZHI 4"
-    };
-    return names[provider as keyof typeof names] || provider;
+    return providers.find(p => p.id === provider)?.label || provider;
   };
 
+  const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+  const formatCost = (cost: number) => cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Compact Header */}
       <header className="border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 py-2">
           <div className="flex items-center justify-between gap-3">
-            <h1 className="text-lg font-semibold text-foreground">Text Evaluator</h1>
+            <div className="flex items-center gap-2">
+              <h1 className="text-lg font-semibold text-foreground">Text Evaluator</h1>
+              <Link href="/usage" className="text-muted-foreground hover:text-foreground" title="LLM usage and budgets" data-testid="link-usage">
+                <BarChart3 className="h-4 w-4" />
+              </Link>
+              <Link href="/protocols" className="text-muted-foreground hover:text-foreground" title="Edit analysis protocols" data-testid="link-protocols">
+                <BookOpen className="h-4 w-4" />
+              </Link>
+            </div>
             
             <div className="flex items-center gap-2 text-xs">
               <Select value={selectedMode} onValueChange={(value) => setSelectedMode(value as AnalysisRequest["mode"])}>
-                <SelectTrigger className="w-32 h-7 text-xs" data-testid="select-mode">
+                <SelectTrigger className="w-40 h-7 text-xs" data-testid="select-mode">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="cognitive-short">Cognitive</SelectItem>
+                  <SelectItem value="cognitive-long">Cognitive (Long)</SelectItem>
                   <SelectItem value="psychological-short">Psychological</SelectItem>
+                  <SelectItem value="psychological-long">Psychological (Long)</SelectItem>
                   <SelectItem value="psychopathological-short">Psychopathological</SelectItem>
+                  <SelectItem value="psychopathological-long">Psychopathological (Long)</SelectItem>
                   <SelectItem value="meta-analysis">Meta-Analysis</SelectItem>
                 </SelectContent>
               </Select>
 
-              <Select value={selectedLLM} onValueChange={(value) => setSelectedLLM(value as AnalysisRequest["llmProvider"])}>
+              <Select
+                value={protocolId || "default"}
+                onValueChange={(value) => { setProtocolId(value === "default" ? "" : value); setProtocolVersion(undefined); }}
+              >
+                <SelectTrigger className="w-36 h-7 text-xs" title="Protocol" data-testid="select-protocol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default protocol</SelectItem>
+                  {modeProtocols.map((protocol) => (
+                    <SelectItem key={protocol.id} value={protocol.id}>{protocol.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {selectedProtocol && selectedProtocol.versions.length > 1 && (
+                <Select
+                  value={protocolVersion !== undefined ? String(protocolVersion) : "latest"}
+                  onValueChange={(value) => setProtocolVersion(value === "latest" ? undefined : Number(value))}
+                >
+                  <SelectTrigger className="w-20 h-7 text-xs" title="Protocol version" data-testid="select-protocol-version">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="latest">Latest</SelectItem>
+                    {selectedProtocol.versions.map((version) => (
+                      <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              <Select value={selectedLLM} onValueChange={(value) => { setSelectedLLM(value); setGeneration({}); }}>
                 <SelectTrigger className="w-20 h-7 text-xs" data-testid="select-llm">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="zhi1">ZHI 1</SelectItem>
-                  <SelectItem value="zhi2">ZHI 2</SelectItem>
-                  <SelectItem value="zhi3">ZHI 3</SelectItem>
-                  <SelectItem value="zhi4">ZHI 4</SelectItem>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id} disabled={!provider.usable} title={provider.unusableReason}>
+                      {provider.label}{provider.usable ? "" : provider.credentialsPresent ? " (unavailable)" : " (no API key)"}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
+              {selectedProvider && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span
+                      className={`h-2 w-2 rounded-full ${!selectedProvider.usable ? "bg-red-500" : selectedProvider.probe ? "bg-green-500" : "bg-muted-foreground/40"}`}
+                      data-testid="status-provider-health"
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent className="text-xs max-w-xs">
+                    <p>{selectedProvider.label}: {selectedProvider.model} ({selectedProvider.streaming ? "native streaming" : "simulated streaming"})</p>
+                    {selectedProvider.unusableReason && <p className="text-red-600">{selectedProvider.unusableReason}</p>}
+                    {selectedProvider.probe?.ok && <p>Probe answered in {selectedProvider.probe.latencyMs} ms</p>}
+                    {!selectedProvider.probe && selectedProvider.usable && <p>Not probed yet</p>}
+                    {selectedProvider.stats.calls > 0 && (
+                      <p>{selectedProvider.stats.calls - selectedProvider.stats.failures}/{selectedProvider.stats.calls} calls succeeded{selectedProvider.stats.averageLatencyMs !== undefined ? `, avg ${(selectedProvider.stats.averageLatencyMs / 1000).toFixed(1)}s` : ""}</p>
+                    )}
+                    {selectedProvider.stats.lastError && <p>Last error: {selectedProvider.stats.lastError.message}</p>}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" disabled={!selectedProvider} data-testid="button-generation-settings">
+                    <SlidersHorizontal className="mr-1 h-3 w-3" />
+                    {generation.model || selectedProvider?.model || "Model"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-3 text-xs">
+                  <div>
+                    <Label className="text-xs mb-1 block">Model</Label>
+                    <Select value={generation.model || "default"} onValueChange={(value) => updateGeneration("model", value === "default" ? "" : value)}>
+                      <SelectTrigger className="h-7 text-xs" data-testid="select-model">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Default ({selectedProvider?.model})</SelectItem>
+                        {selectedProvider?.allowedModels?.filter(model => model !== selectedProvider.model).map((model) => (
+                          <SelectItem key={model} value={model}>{model}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-xs mb-1 block">
+                      Temperature {selectedProvider?.temperatureRange ? `(${selectedProvider.temperatureRange[0]}–${selectedProvider.temperatureRange[1]})` : "(not supported)"}
+                    </Label>
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min={selectedProvider?.temperatureRange?.[0]}
+                      max={selectedProvider?.temperatureRange?.[1]}
+                      className="h-7 text-xs"
+                      placeholder="Provider default"
+                      disabled={!selectedProvider?.temperatureRange}
+                      value={generation.temperature ?? ""}
+                      onChange={(e) => updateGeneration("temperature", e.target.value)}
+                      data-testid="input-temperature"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs mb-1 block">Max output tokens (up to {selectedProvider?.maxTokensLimit})</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={selectedProvider?.maxTokensLimit}
+                      className="h-7 text-xs"
+                      placeholder={String(selectedProvider?.maxOutputTokens ?? "")}
+                      value={generation.maxTokens ?? ""}
+                      onChange={(e) => updateGeneration("maxTokens", e.target.value)}
+                      data-testid="input-max-tokens"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs mb-1 block">Seed {selectedProvider?.supportsSeed ? "" : "(not supported)"}</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      className="h-7 text-xs"
+                      placeholder="Random"
+                      disabled={!selectedProvider?.supportsSeed}
+                      value={generation.seed ?? ""}
+                      onChange={(e) => updateGeneration("seed", e.target.value)}
+                      data-testid="input-seed"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs mb-1 block">Runs per text (2–20 shows score spread)</Label>
+                    <Input
+                      type="number"
+                      step="1"
+                      min={2}
+                      max={20}
+                      className="h-7 text-xs"
+                      placeholder="1"
+                      value={samples ?? ""}
+                      onChange={(e) => setSamples(e.target.value.trim() === "" ? undefined : Number(e.target.value))}
+                      data-testid="input-samples"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs mb-1 block">Response cache</Label>
+                    <Select value={cachePolicy} onValueChange={(value) => setCachePolicy(value as typeof cachePolicy)}>
+                      <SelectTrigger className="h-7 text-xs" data-testid="select-cache-policy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="use">Reuse identical analyses</SelectItem>
+                        <SelectItem value="fresh">Force fresh sample</SelectItem>
+                        <SelectItem value="bypass">Bypass cache</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </PopoverContent>
+              </Popover>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" data-testid="button-fallbacks">
+                    {activeFallbacks.length > 0
+                      ? `Fallback: ${activeFallbacks.map(getLLMDisplayName).join(" → ")}`
+                      : "No fallback"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuLabel className="text-xs">If {getLLMDisplayName(selectedLLM)} fails, try</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {providers.filter(provider => provider.id !== selectedLLM).map((provider) => (
+                    <DropdownMenuCheckboxItem
+                      key={provider.id}
+                      checked={activeFallbacks.includes(provider.id)}
+                      onCheckedChange={(checked) => toggleFallback(provider.id, checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                      disabled={!provider.usable}
+                      title={provider.unusableReason}
+                      className="text-xs"
+                    >
+                      {provider.label}{provider.usable ? "" : " (unavailable)"}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" data-testid="button-consensus">
+                    {consensusProviders
+                      ? `Consensus: ${consensusProviders.map(getLLMDisplayName).join(" + ")}`
+                      : "Single provider"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuLabel className="text-xs">Also analyze with, and compare scores</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {providers.filter(provider => provider.id !== selectedLLM).map((provider) => (
+                    <DropdownMenuCheckboxItem
+                      key={provider.id}
+                      checked={consensusProviders?.includes(provider.id) ?? false}
+                      onCheckedChange={(checked) => toggleConsensus(provider.id, checked === true)}
+                      onSelect={(e) => e.preventDefault()}
+                      disabled={!provider.usable}
+                      title={provider.unusableReason}
+                      className="text-xs"
+                    >
+                      {provider.label}{provider.usable ? "" : " (unavailable)"}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
               <Button 
                 onClick={handleAnalyze}
-                disabled={isAnalyzing || !inputText.trim()}
+                disabled={isAnalyzing || !inputText.trim() || !selectedLLM}
                 size="sm"
                 className="h-7"
                 data-testid="button-analyze"
@@ -550,6 +936,33 @@ export default function TextAnalyzer() {
                 <Brain className="mr-1 h-3 w-3" />
                 {isAnalyzing ? "..." : "Analyze"}
               </Button>
+
+              <Button
+                variant="outline"
+                onClick={() => setInspectRequest(analysisRequest)}
+                disabled={!inputText.trim() || !selectedLLM}
+                size="sm"
+                className="h-7"
+                data-testid="button-inspect-prompt"
+              >
+                <ScanText className="mr-1 h-3 w-3" />
+                Inspect prompt
+              </Button>
+
+              {estimate && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap cursor-default" data-testid="text-estimate">
+                      ~{formatTokens(estimate.totals.inputTokens)} in · {formatCost(estimate.totals.cost)}{estimate.unpricedModels.length > 0 ? "+" : ""}
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent className="text-xs max-w-xs">
+                    <p>{estimate.totals.calls} call{estimate.totals.calls === 1 ? "" : "s"}, ~{formatTokens(estimate.totals.inputTokens)} input and up to {formatTokens(estimate.totals.outputTokens)} output tokens</p>
+                    {estimate.unpricedModels.length > 0 && <p>No price configured for {estimate.unpricedModels.join(", ")}</p>}
+                    {estimate.warnings.map((warning) => <p key={warning} className="text-amber-600">{warning}</p>)}
+                  </TooltipContent>
+                </Tooltip>
+              )}
               
               <Button 
                 variant="outline" 
@@ -669,6 +1082,13 @@ export default function TextAnalyzer() {
               <ChunkSelector 
                 chunks={chunks} 
                 onChunksChange={setChunks}
+                text={inputText}
+                options={chunkOptions}
+                onOptionsChange={(options) => {
+                  setChunkOptions(options);
+                  chunkMutation.mutate({ text: inputText, options });
+                }}
+                isChunking={chunkMutation.isPending}
               />
             )}
           </div>
@@ -678,6 +1098,7 @@ export default function TextAnalyzer() {
             result={currentResult}
             isAnalyzing={isAnalyzing}
             currentLLM={getLLMDisplayName(selectedLLM)}
+            getProviderLabel={getLLMDisplayName}
             streamingStatus={streamingStatus}
             streamingPhase={streamingPhase}
             streamingText={streamingText}
@@ -685,9 +1106,34 @@ export default function TextAnalyzer() {
             onCritiqueAnalysis={performCritiqueAnalysis}
             isCritiqueAnalyzing={isCritiqueAnalyzing}
             onMetaAnalysis={handleMetaAnalysis}
+            onRetryFailedChunks={handleRetryFailedChunks}
+            onInspectCritique={(critique) => setInspectRequest(critiqueRequestFor(critique))}
+            onInspectMetaAnalysis={(result) => setInspectRequest(metaAnalysisRequestFor(result))}
           />
         </div>
       </main>
+
+      <PromptInspector request={inspectRequest} onClose={() => setInspectRequest(null)} />
+
+      <AlertDialog open={pendingRun !== null} onOpenChange={(open) => { if (!open) setPendingRun(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Run this analysis?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRun && `This will make ${pendingRun.estimate.totals.calls} call${pendingRun.estimate.totals.calls === 1 ? "" : "s"} (~${formatTokens(pendingRun.estimate.totals.inputTokens)} input, up to ${formatTokens(pendingRun.estimate.totals.outputTokens)} output tokens) and may cost up to ${formatCost(pendingRun.estimate.totals.cost)}, above the ${formatCost(pendingRun.estimate.confirmThreshold)} confirmation threshold.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-run">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => { if (pendingRun) performStreamingAnalysis(pendingRun.request); setPendingRun(null); }}
+              data-testid="button-confirm-run"
+            >
+              Run analysis
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -4,6 +4,9 @@ export interface TextChunk {
   wordCount: number;
   title: string;
   preview: string;
+  // Character offsets of the chunk in the chunked text (end exclusive)
+  start: number;
+  end: number;
   selected: boolean;
 }
 
@@ -15,4 +18,5 @@ export type AnalysisMode =
   | "psychopathological-short"
   | "psychopathological-long";
 
-export type LLMProvider = "zhi1" | "zhi2" | "zhi3" | "zhi4";
+// Provider ids come from the server's provider registry (GET /api/providers)
+export type LLMProvider = string;
@@ -0,0 +1,49 @@
+export interface ServerEvent {
+  id?: number;
+  data: string;
+}
+
+// Yields each event of a Server-Sent Events body with its id, so a reconnect can resume after it
+export async function* readServerEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let id: number | undefined;
+  let dataLines: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by blank lines; a trailing partial line stays in the buffer
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        if (line === "") {
+          if (dataLines.length > 0) {
+            yield { id, data: dataLines.join("\n") };
+          }
+          id = undefined;
+          dataLines = [];
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        } else if (line.startsWith("id:")) {
+          id = Number(line.slice(3).trim());
+        }
+        // Comments (":") are keep-alives
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stopping early (the caller stopped reading or a read failed) must not leave the connection open
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { adminHeaders, getAdminToken, setAdminToken } from "@/lib/adminToken";
+import type { QueueSnapshot } from "@shared/schema";
+
+export default function AdminQueuePage() {
+  const [token, setToken] = useState(getAdminToken);
+  const [tokenInput, setTokenInput] = useState("");
+
+  const { data, error, isLoading } = useQuery<QueueSnapshot>({
+    queryKey: ["/api/admin/queue", token],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/queue", {
+        headers: adminHeaders(),
+        credentials: "include"
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return await response.json();
+    },
+    enabled: token !== null,
+    refetchInterval: 2000
+  });
+
+  const saveToken = (value: string | null) => {
+    setAdminToken(value);
+    setToken(getAdminToken());
+    setTokenInput("");
+  };
+
+  const since = (iso: string) => `${Math.max(0, Math.round((Date.now() - Date.parse(iso)) / 1000))}s`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="max-w-5xl mx-auto px-4 py-2 flex items-center gap-3">
+          <Link href="/" className="text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <h1 className="text-lg font-semibold">LLM Call Queue</h1>
+          {token !== null && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs ml-auto" onClick={() => saveToken(null)} data-testid="button-forget-admin-token">
+              Forget token
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-4 space-y-3">
+        {token === null && (
+          <form
+            className="flex gap-2 max-w-md"
+            onSubmit={(e) => { e.preventDefault(); saveToken(tokenInput.trim() || null); }}
+          >
+            <Input
+              type="password"
+              placeholder="Admin token"
+              value={tokenInput}
+              onChange={(e) => setTokenInput(e.target.value)}
+              className="h-8 text-sm"
+              data-testid="input-admin-token"
+            />
+            <Button type="submit" size="sm" className="h-8" disabled={!tokenInput.trim()}>Open</Button>
+          </form>
+        )}
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        {error && <p className="text-sm text-red-600" data-testid="text-queue-error">{error instanceof Error ? error.message : "Failed to load queue"}</p>}
+
+        {data?.providers.map((lane) => (
+          <Card key={lane.provider} data-testid={`card-queue-${lane.provider}`}>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="font-medium">{lane.provider}</h2>
+                <div className="flex gap-2 text-xs">
+                  <Badge variant="outline">{lane.active.length}/{lane.maxConcurrency} running</Badge>
+                  <Badge variant={lane.waiting.length > 0 ? "secondary" : "outline"}>{lane.waiting.length} waiting</Badge>
+                </div>
+              </div>
+
+              {lane.active.length === 0 && lane.waiting.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Idle</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {lane.active.map((call) => (
+                      <tr key={`active-${call.jobId}-${call.startedAt}`} className="border-t border-border">
+                        <td className="py-1 w-20 text-green-700">running</td>
+                        <td className="py-1">{call.label}</td>
+                        <td className="py-1 font-mono text-muted-foreground">{call.jobId.substring(0, 8)}</td>
+                        <td className="py-1 text-right text-muted-foreground">{since(call.startedAt)}</td>
+                      </tr>
+                    ))}
+                    {lane.waiting.map((call) => (
+                      <tr key={`waiting-${call.jobId}-${call.enqueuedAt}`} className="border-t border-border">
+                        <td className="py-1 w-20 text-amber-700">#{call.position}</td>
+                        <td className="py-1">{call.label}</td>
+                        <td className="py-1 font-mono text-muted-foreground">{call.jobId.substring(0, 8)}</td>
+                        <td className="py-1 text-right text-muted-foreground">{since(call.enqueuedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { adminHeaders, getAdminToken, setAdminToken } from "@/lib/adminToken";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Plus, Trash2 } from "lucide-react";
+import type { Protocol, ProtocolContent, ProtocolModeType, ProtocolSummary, ProtocolVersion, SaveProtocol } from "@shared/schema";
+
+// Questions are edited as one text, entries separated by blank lines, as they are sent
+type Draft = Omit<ProtocolContent, "questions"> & { questions: string };
+
+const MODE_TYPE_LABELS: Record<ProtocolModeType, string> = {
+  "cognitive": "Cognitive",
+  "psychological": "Psychological",
+  "psychopathological": "Psychopathological",
+  "meta-analysis": "Meta-analysis"
+};
+
+const emptyDraft = (): Draft => ({
+  name: "",
+  description: "",
+  modeType: "cognitive",
+  systemPrompt: "",
+  preamble: "",
+  questions: "",
+  instructions: "",
+  scoringNotes: "",
+  addenda: [],
+  exemplars: []
+});
+
+const toDraft = ({ version, createdAt, changeNote, ...content }: ProtocolVersion): Draft => ({
+  ...content,
+  questions: content.questions.join("\n\n")
+});
+
+export default function ProtocolsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [newId, setNewId] = useState("");
+  // The version loaded into the editor (default: latest); saving always adds a new version
+  const [loadedVersion, setLoadedVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  // Saving requires ADMIN_TOKEN; it is kept for the browser session
+  const [adminToken, setAdminTokenInput] = useState(() => getAdminToken() ?? "");
+
+  const { data, error, isLoading } = useQuery<{ protocols: ProtocolSummary[] }>({
+    queryKey: ["/api/protocols"]
+  });
+  const { data: protocol } = useQuery<Protocol>({
+    queryKey: ["/api/protocols", selectedId],
+    enabled: selectedId !== null && !creating
+  });
+
+  const latest = protocol?.versions[protocol.versions.length - 1];
+
+  useEffect(() => {
+    if (!protocol || creating) return;
+    const version = protocol.versions.find(entry => entry.version === loadedVersion) ?? protocol.versions[protocol.versions.length - 1];
+    setDraft(toDraft(version));
+  }, [protocol, loadedVersion, creating]);
+
+  const selectProtocol = (id: string) => {
+    setCreating(false);
+    setSelectedId(id);
+    setLoadedVersion(null);
+    setChangeNote("");
+  };
+
+  const startNew = () => {
+    setCreating(true);
+    setSelectedId(null);
+    setNewId("");
+    setLoadedVersion(null);
+    setDraft(emptyDraft());
+    setChangeNote("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (draft: Draft) => {
+      const body: SaveProtocol = {
+        ...draft,
+        description: draft.description?.trim() || undefined,
+        preamble: draft.preamble?.trim() || undefined,
+        questions: draft.questions.split(/\n\s*\n/).map(question => question.trim()).filter(Boolean),
+        changeNote: changeNote.trim() || undefined
+      };
+      setAdminToken(adminToken.trim() || null);
+      const response = creating
+        ? await apiRequest("POST", "/api/protocols", { id: newId.trim(), ...body }, adminHeaders())
+        : await apiRequest("PUT", `/api/protocols/${selectedId}`, body, adminHeaders());
+      return await response.json() as Protocol;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/protocols"] });
+      setCreating(false);
+      setSelectedId(saved.id);
+      setLoadedVersion(null);
+      setChangeNote("");
+      toast({
+        title: "Protocol saved",
+        description: `${saved.id} is now at version ${saved.versions[saved.versions.length - 1].version}`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const update = <K extends keyof Draft>(key: K, value: Draft[K]) => {
+    setDraft(current => current && { ...current, [key]: value });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="max-w-6xl mx-auto px-4 py-2 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h1 className="text-lg font-semibold">Protocols</h1>
+          </div>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={startNew} data-testid="button-new-protocol">
+            <Plus className="h-3 w-3 mr-1" />
+            New protocol
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-4 flex gap-4 items-start">
+        <Card className="w-64 flex-shrink-0">
+          <CardContent className="p-2 space-y-1">
+            {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+            {error && <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load protocols"}</p>}
+            {data?.protocols.map((summary) => (
+              <button
+                key={summary.id}
+                className={`w-full text-left rounded-md px-2 py-1.5 text-sm hover:bg-muted ${summary.id === selectedId ? "bg-muted" : ""}`}
+                onClick={() => selectProtocol(summary.id)}
+                data-testid={`button-protocol-${summary.id}`}
+              >
+                <div className="font-medium">{summary.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {MODE_TYPE_LABELS[summary.modeType]} · v{summary.latestVersion}
+                </div>
+              </button>
+            ))}
+          </CardContent>
+        </Card>
+
+        {!draft ? (
+          <p className="text-sm text-muted-foreground">Select a protocol to edit, or create a new one.</p>
+        ) : (
+          <div className="flex-1 space-y-4">
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                {creating ? (
+                  <div>
+                    <Label className="text-xs mb-1 block">Id (lowercase letters, digits and dashes)</Label>
+                    <Input value={newId} onChange={(e) => setNewId(e.target.value)} className="h-8 text-sm" data-testid="input-protocol-id" />
+                  </div>
+                ) : protocol && loadedVersion !== null && loadedVersion !== latest?.version && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-loaded-version">
+                    Showing version {loadedVersion}; saving makes it version {(latest?.version ?? 0) + 1}
+                  </p>
+                )}
+                <div className="flex gap-3">
+                  <div className="flex-1">
+                    <Label className="text-xs mb-1 block">Name</Label>
+                    <Input value={draft.name} onChange={(e) => update("name", e.target.value)} className="h-8 text-sm" data-testid="input-protocol-name" />
+                  </div>
+                  <div className="w-48">
+                    <Label className="text-xs mb-1 block">Used for</Label>
+                    <Select value={draft.modeType} onValueChange={(value) => update("modeType", value as ProtocolModeType)} disabled={!creating}>
+                      <SelectTrigger className="h-8 text-sm" data-testid="select-protocol-mode-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(MODE_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">Description</Label>
+                  <Input value={draft.description ?? ""} onChange={(e) => update("description", e.target.value)} className="h-8 text-sm" />
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">System prompt</Label>
+                  <Textarea value={draft.systemPrompt} onChange={(e) => update("systemPrompt", e.target.value)} className="min-h-32 text-xs" data-testid="textarea-system-prompt" />
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">Preamble (sent before the questions)</Label>
+                  <Textarea value={draft.preamble ?? ""} onChange={(e) => update("preamble", e.target.value)} className="min-h-16 text-xs" data-testid="textarea-preamble" />
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">Questions (separated by blank lines; lines without a blank line between them are sent together)</Label>
+                  <Textarea value={draft.questions} onChange={(e) => update("questions", e.target.value)} className="min-h-48 text-xs" data-testid="textarea-questions" />
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">Instructions (sent after the questions)</Label>
+                  <Textarea value={draft.instructions} onChange={(e) => update("instructions", e.target.value)} className="min-h-24 text-xs" data-testid="textarea-instructions" />
+                </div>
+                <div>
+                  <Label className="text-xs mb-1 block">Scoring notes</Label>
+                  <Textarea value={draft.scoringNotes} onChange={(e) => update("scoringNotes", e.target.value)} className="min-h-24 text-xs" data-testid="textarea-scoring-notes" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-medium text-sm">Addenda</h2>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => update("addenda", [...draft.addenda, { title: "", body: "" }])} data-testid="button-add-addendum">
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {draft.addenda.map((addendum, index) => (
+                  <div key={index} className="space-y-1 border border-border rounded-md p-2">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Title"
+                        value={addendum.title}
+                        onChange={(e) => update("addenda", draft.addenda.map((entry, i) => i === index ? { ...entry, title: e.target.value } : entry))}
+                        className="h-8 text-xs"
+                      />
+                      <Button variant="ghost" size="sm" className="h-8" onClick={() => update("addenda", draft.addenda.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      value={addendum.body}
+                      onChange={(e) => update("addenda", draft.addenda.map((entry, i) => i === index ? { ...entry, body: e.target.value } : entry))}
+                      className="min-h-24 text-xs"
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="font-medium text-sm">Exemplars</h2>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => update("exemplars", [...draft.exemplars, { label: "", text: "", commentary: "" }])} data-testid="button-add-exemplar">
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                {draft.exemplars.map((exemplar, index) => (
+                  <div key={index} className="space-y-1 border border-border rounded-md p-2">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Label"
+                        value={exemplar.label}
+                        onChange={(e) => update("exemplars", draft.exemplars.map((entry, i) => i === index ? { ...entry, label: e.target.value } : entry))}
+                        className="h-8 text-xs"
+                      />
+                      <Button variant="ghost" size="sm" className="h-8" onClick={() => update("exemplars", draft.exemplars.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      placeholder="Passage"
+                      value={exemplar.text}
+                      onChange={(e) => update("exemplars", draft.exemplars.map((entry, i) => i === index ? { ...entry, text: e.target.value } : entry))}
+                      className="min-h-24 text-xs"
+                    />
+                    <Textarea
+                      placeholder="What the passage exemplifies"
+                      value={exemplar.commentary}
+                      onChange={(e) => update("exemplars", draft.exemplars.map((entry, i) => i === index ? { ...entry, commentary: e.target.value } : entry))}
+                      className="min-h-16 text-xs"
+                    />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4 flex items-end gap-3">
+                <div className="flex-1">
+                  <Label className="text-xs mb-1 block">Change note</Label>
+                  <Input value={changeNote} onChange={(e) => setChangeNote(e.target.value)} className="h-8 text-sm" placeholder="What changed and why" data-testid="input-change-note" />
+                </div>
+                <div className="w-48">
+                  <Label className="text-xs mb-1 block">Admin token</Label>
+                  <Input type="password" value={adminToken} onChange={(e) => setAdminTokenInput(e.target.value)} className="h-8 text-sm" data-testid="input-admin-token" />
+                </div>
+                <Button onClick={() => saveMutation.mutate(draft)} disabled={saveMutation.isPending || !adminToken.trim()} data-testid="button-save-protocol">
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  {creating ? "Create protocol" : `Save as version ${(latest?.version ?? 0) + 1}`}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {protocol && !creating && (
+              <Card>
+                <CardContent className="p-4">
+                  <h2 className="font-medium text-sm mb-2">Versions</h2>
+                  <table className="w-full text-xs" data-testid="table-protocol-versions">
+                    <tbody>
+                      {protocol.versions.slice().reverse().map((version) => (
+                        <tr key={version.version} className="border-t border-border">
+                          <td className="py-1">
+                            v{version.version}
+                            {version.version === latest?.version && <Badge variant="outline" className="ml-1 text-[10px] font-normal">latest</Badge>}
+                          </td>
+                          <td className="py-1 text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</td>
+                          <td className="py-1">{version.changeNote}</td>
+                          <td className="py-1 text-right">
+                            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setLoadedVersion(version.version)} data-testid={`button-load-version-${version.version}`}>
+                              Load
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
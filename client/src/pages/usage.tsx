@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import type { UsageSummary } from "@shared/schema";
+
+export default function UsagePage() {
+  const [granularity, setGranularity] = useState<UsageSummary["granularity"]>("day");
+
+  const { data, error, isLoading } = useQuery<UsageSummary>({
+    queryKey: [`/api/usage?granularity=${granularity}`],
+    refetchInterval: 30000
+  });
+
+  const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+  const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+  // Column totals per period, across providers
+  const periodTotals = new Map<string, number>();
+  data?.buckets.forEach((bucket) => periodTotals.set(bucket.period, (periodTotals.get(bucket.period) ?? 0) + bucket.cost));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border">
+        <div className="max-w-5xl mx-auto px-4 py-2 flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="text-muted-foreground hover:text-foreground">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <h1 className="text-lg font-semibold">LLM Usage</h1>
+          </div>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as UsageSummary["granularity"])}>
+            <SelectTrigger className="w-28 h-7 text-xs" data-testid="select-granularity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-4 space-y-4">
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        {error && <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load usage"}</p>}
+
+        {data && data.budgets.length > 0 && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <h2 className="font-medium">Budgets</h2>
+              {data.budgets.map((budget) => (
+                <div key={`${budget.scope}-${budget.period}`} data-testid={`budget-${budget.scope}-${budget.period}`}>
+                  <div className="flex justify-between text-xs mb-1">
+                    <span>{budget.scope === "all" ? "All providers" : budget.scope} · {budget.period === "day" ? "today" : "this month"}</span>
+                    <span className={budget.exceeded ? "text-red-600 font-medium" : "text-muted-foreground"}>
+                      {formatCost(budget.spentUsd)} of {formatCost(budget.limitUsd)}{budget.exceeded ? " (cap reached)" : ""}
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, (budget.spentUsd / budget.limitUsd) * 100)} className="h-2" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {data && (
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="font-medium mb-2">Spending by {granularity === "day" ? "day" : "month"}</h2>
+              {data.buckets.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No calls recorded yet</p>
+              ) : (
+                <table className="w-full text-xs" data-testid="table-usage">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="py-1">Period</th>
+                      <th className="py-1">Provider</th>
+                      <th className="py-1 text-right">Calls</th>
+                      <th className="py-1 text-right">Input tokens</th>
+                      <th className="py-1 text-right">Output tokens</th>
+                      <th className="py-1 text-right">Avg latency</th>
+                      <th className="py-1 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.buckets.map((bucket) => (
+                      <tr key={`${bucket.period}-${bucket.provider}`} className="border-t border-border">
+                        <td className="py-1">{bucket.period}</td>
+                        <td className="py-1">{bucket.provider}</td>
+                        <td className="py-1 text-right">
+                          {bucket.calls}
+                          {bucket.failures > 0 && <span className="text-red-600"> ({bucket.failures} failed)</span>}
+                        </td>
+                        <td className="py-1 text-right">{formatTokens(bucket.inputTokens)}</td>
+                        <td className="py-1 text-right">{formatTokens(bucket.outputTokens)}</td>
+                        <td className="py-1 text-right">{(bucket.averageLatencyMs / 1000).toFixed(1)}s</td>
+                        <td className="py-1 text-right" title={`${formatCost(periodTotals.get(bucket.period) ?? 0)} across all providers`}>
+                          {formatCost(bucket.cost)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {data && data.recent.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <h2 className="font-medium mb-2">Recent calls</h2>
+              <table className="w-full text-xs">
+                <tbody>
+                  {data.recent.map((record) => (
+                    <tr key={`${record.at}-${record.provider}-${record.analysisId ?? ""}`} className="border-t border-border">
+                      <td className="py-1 text-muted-foreground">{new Date(record.at).toLocaleString()}</td>
+                      <td className="py-1">{record.provider} <span className="text-muted-foreground">({record.model})</span></td>
+                      <td className="py-1">{record.mode}</td>
+                      <td className="py-1 font-mono text-muted-foreground">{record.analysisId?.substring(0, 8)}</td>
+                      <td className="py-1 text-right">
+                        {formatTokens(record.inputTokens)} / {formatTokens(record.outputTokens)}
+                        {record.tokensEstimated && <Badge variant="outline" className="ml-1 text-[10px] font-normal">est.</Badge>}
+                      </td>
+                      <td className="py-1 text-right">{record.cost !== undefined ? formatCost(record.cost) : "—"}</td>
+                      <td className="py-1 text-right" title={record.error}>
+                        {record.ok ? `${(record.latencyMs / 1000).toFixed(1)}s` : <span className="text-red-600">failed</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,17 +1,93 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
-import { analysisRequestSchema } from "@shared/schema";
+import { z } from "zod";
+import { analysisRequestSchema, chunkRequestSchema, estimateRequestSchema, protocolSchema, saveProtocolSchema } from "@shared/schema";
+import { ProviderRegistry } from "./services/providerRegistry";
 import { LLMService } from "./services/llmService";
+import { LLMCallQueue } from "./services/llmCallQueue";
+import { ChunkPacer } from "./services/chunkPacer";
+import { UsageMeter } from "./services/usageMeter";
+import { CassetteStore } from "./services/cassetteStore";
+import { ResponseCache } from "./services/responseCache";
+import { CheckpointStore } from "./services/checkpointStore";
+import { ProtocolLibrary } from "./services/protocolLibrary";
 import { AnalysisService } from "./services/analysisService";
+import { JobManager } from "./services/jobManager";
+import { CostEstimator } from "./services/costEstimator";
+import { ProviderHealthService } from "./services/providerHealthService";
 import { FileService } from "./services/fileService";
+import { requireAdmin } from "./utils/adminAuth";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const llmService = new LLMService();
-  const analysisService = new AnalysisService(llmService);
+  const providerRegistry = ProviderRegistry.loadFromFile();
+  const protocolLibrary = ProtocolLibrary.loadFromDirectory();
+  const callQueue = new LLMCallQueue(provider => providerRegistry.require(provider).maxConcurrency);
+  const usageMeter = UsageMeter.fromEnv(provider => providerRegistry.get(provider)?.budget);
+  const llmService = new LLMService(providerRegistry, CassetteStore.fromEnv(), callQueue, usageMeter);
+  const chunkPacer = new ChunkPacer(ChunkPacer.defaultsFromEnv(), provider => providerRegistry.get(provider)?.pacing);
+  const analysisService = new AnalysisService(llmService, ResponseCache.fromEnv(), usageMeter, chunkPacer, CheckpointStore.fromEnv(), protocolLibrary);
+  const jobManager = new JobManager(analysisService);
+  const costEstimator = new CostEstimator(providerRegistry, llmService, analysisService);
+  const providerHealthService = new ProviderHealthService(providerRegistry, llmService);
   const fileService = new FileService();
+  // The id of the running retry job per analysis, so its failed chunks are never re-run twice at once
+  const activeRetries = new Map<string, string>();
+
+  // The protocol must exist and be meant for the request's mode
+  const refineProtocol = (request: { mode: string; protocolId?: string; protocolVersion?: number }, ctx: z.RefinementCtx) => {
+    const problem = protocolLibrary.check(request.mode, request.protocolId, request.protocolVersion);
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem, path: ["protocolId"] });
+    }
+  };
+
+  // Only providers declared in the registry are accepted
+  const providerIdSchema = z.enum(providerRegistry.ids());
+  const consensusProvidersSchema = z.array(providerIdSchema).min(2)
+    .refine(providers => new Set(providers).size === providers.length, "consensusProviders must not repeat a provider");
+  const requestSchema = analysisRequestSchema.extend({
+    llmProvider: providerIdSchema,
+    fallbackProviders: z.array(providerIdSchema).optional(),
+    consensusProviders: consensusProvidersSchema.optional()
+  }).superRefine((request, ctx) => {
+    // Generation overrides must suit every provider the request may end up on
+    const chain = request.consensusProviders ?? [request.llmProvider, ...(request.fallbackProviders || [])];
+    chain.forEach(provider => {
+      const problems = providerRegistry.checkGenerationParams(providerRegistry.require(provider), request, { includeModel: provider === request.llmProvider });
+      problems.forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+    });
+    refineProtocol(request, ctx);
+  });
+
+  // List configured LLM providers with credential, probe and call health
+  // ?probe=true probes providers whose last probe is stale; ?refresh=true re-probes all of them
+  app.get("/api/providers", async (req, res) => {
+    try {
+      const refresh = req.query.refresh === "true";
+      const providers = await providerHealthService.report({ probe: refresh || req.query.probe === "true", refresh });
+      res.json({ providers });
+    } catch (error) {
+      console.error("Provider health error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to check providers: ${errorMessage}` });
+    }
+  });
+
+  // Calls running and waiting per provider, for the admin queue view
+  app.get("/api/admin/queue", requireAdmin, (_req, res) => {
+    res.json(callQueue.snapshot(providerRegistry.ids()));
+  });
+
+  // Tokens, cost and latency per provider per day (or ?granularity=month), with budget status
+  app.get("/api/usage", (req, res) => {
+    const granularity = req.query.granularity === "month" ? "month" : "day";
+    const days = Math.min(Math.max(Number(req.query.days) || (granularity === "month" ? 365 : 30), 1), 3650);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    res.json(usageMeter.summarize(granularity, since, providerRegistry.ids()));
+  });
 
   // Upload and parse file
   app.post("/api/upload", upload.single("file"), async (req, res) => {
@@ -32,23 +108,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Chunk text for large inputs
   app.post("/api/chunk", async (req, res) => {
     try {
-      const { text } = req.body;
-      if (!text || typeof text !== "string") {
-        return res.status(400).json({ error: "Text is required" });
-      }
-
-      const chunks = analysisService.chunkText(text);
+      const { text, ...options } = chunkRequestSchema.parse(req.body);
+      const chunks = analysisService.chunkText(text, options);
       res.json({ chunks });
     } catch (error) {
       console.error("Chunking error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => issue.message).join('; ');
+        return res.status(400).json({ error: `Invalid request format: ${details}` });
+      }
       res.status(500).json({ error: "Failed to chunk text" });
     }
   });
 
+  // Token and cost estimate for the calls /api/analyze would make
+  app.post("/api/estimate", (req, res) => {
+    try {
+      const request = estimateRequestSchema.extend({
+        llmProvider: providerIdSchema,
+        fallbackProviders: z.array(providerIdSchema).optional(),
+        consensusProviders: consensusProvidersSchema.optional(),
+        providers: z.array(providerIdSchema).min(1).optional()
+      }).superRefine(refineProtocol).parse(req.body);
+
+      res.json(costEstimator.estimate(request, request.providers));
+    } catch (error) {
+      console.error("Estimate error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => issue.message).join('; ');
+        return res.status(400).json({ error: `Invalid request format: ${details}` });
+      }
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to estimate cost: ${errorMessage}` });
+    }
+  });
+
+  // The exact prompts /api/analyze would send for the same body; no provider is called
+  app.post("/api/prompt-preview", (req, res) => {
+    try {
+      const request = requestSchema.parse(req.body);
+      res.json(analysisService.previewPrompts(request));
+    } catch (error) {
+      console.error("Prompt preview error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => issue.message).join('; ');
+        return res.status(400).json({ error: `Invalid request format: ${details}` });
+      }
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to build prompt preview: ${errorMessage}` });
+    }
+  });
+
+  // Protocol library: summaries of every protocol, or one protocol with all its versions
+  app.get("/api/protocols", (req, res) => {
+    res.json({ protocols: protocolLibrary.list() });
+  });
+
+  app.get("/api/protocols/:protocolId", (req, res) => {
+    const protocol = protocolLibrary.get(req.params.protocolId);
+    if (!protocol) {
+      return res.status(404).json({ error: "Protocol not found" });
+    }
+    res.json(protocol);
+  });
+
+  // Creates a protocol with its first version; edits change every later analysis, so they need ADMIN_TOKEN
+  app.post("/api/protocols", requireAdmin, async (req, res) => {
+    try {
+      const { id, ...content } = saveProtocolSchema.extend({ id: protocolSchema.shape.id }).parse(req.body);
+      if (protocolLibrary.get(id)) {
+        return res.status(409).json({ error: `Protocol ${id} already exists` });
+      }
+      res.status(201).json(await protocolLibrary.saveVersion(id, content));
+    } catch (error) {
+      console.error("Protocol create error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        return res.status(400).json({ error: `Invalid protocol: ${details}` });
+      }
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to save protocol: ${errorMessage}` });
+    }
+  });
+
+  // Saves an edit as the protocol's next version; earlier versions stay available
+  app.put("/api/protocols/:protocolId", requireAdmin, async (req, res) => {
+    try {
+      const existing = protocolLibrary.get(req.params.protocolId);
+      if (!existing) {
+        return res.status(404).json({ error: "Protocol not found" });
+      }
+      const content = saveProtocolSchema.parse(req.body);
+      // Requests resolve protocols by mode family, so a protocol keeps the one it was created for
+      const { modeType } = existing.versions[existing.versions.length - 1];
+      if (content.modeType !== modeType) {
+        return res.status(400).json({ error: `Protocol ${existing.id} is for ${modeType} analyses; its mode type cannot change` });
+      }
+      res.json(await protocolLibrary.saveVersion(req.params.protocolId, content));
+    } catch (error) {
+      console.error("Protocol save error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        return res.status(400).json({ error: `Invalid protocol: ${details}` });
+      }
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to save protocol: ${errorMessage}` });
+    }
+  });
+
   // Perform analysis with streaming
   app.post("/api/analyze", async (req, res) => {
+    // Closing the connection (client abort or navigation) cancels the in-flight LLM calls
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort(new Error("Client disconnected"));
+      }
+    });
+    const send = (payload: unknown) => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`data: ${JSON.stringify(payload)}\n\n`);
+      }
+    };
+
     try {
-      const request = analysisRequestSchema.parse(req.body);
+      const request = requestSchema.parse(req.body);
       
       // Set headers for Server-Sent Events
       res.setHeader('Content-Type', 'text/event-stream');
@@ -58,25 +242,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
 
       // Stream analysis with progress updates
-      const result = await analysisService.analyzeWithStreaming(request, (update) => {
-        res.write(`data: ${JSON.stringify(update)}\n\n`);
-      });
+      const result = await analysisService.analyzeWithStreaming(request, send, controller.signal);
+
+      if (result.cancelled) {
+        console.log(`Analysis ${result.id} cancelled by client`);
+      }
 
       // Send final result
-      res.write(`data: ${JSON.stringify({ type: 'complete', result })}\n\n`);
+      send({ type: 'complete', result });
       res.end();
     } catch (error) {
       console.error("Analysis error:", error);
-      if (error instanceof Error && error.name === "ZodError") {
-        res.write(`data: ${JSON.stringify({ type: 'error', error: 'Invalid request format' })}\n\n`);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => issue.message).join('; ');
+        send({ type: 'error', error: `Invalid request format: ${details}` });
       } else {
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        res.write(`data: ${JSON.stringify({ type: 'error', error: `Analysis failed: ${errorMessage}` })}\n\n`);
+        send({ type: 'error', error: `Analysis failed: ${errorMessage}` });
       }
       res.end();
     }
   });
 
+  // Start an analysis that keeps running when the client disconnects; same body as /api/analyze
+  app.post("/api/jobs", (req, res) => {
+    try {
+      const request = requestSchema.parse(req.body);
+      res.status(202).json(jobManager.start(request));
+    } catch (error) {
+      console.error("Job start error:", error);
+      if (error instanceof z.ZodError) {
+        const details = error.issues.map(issue => issue.message).join('; ');
+        return res.status(400).json({ error: `Invalid request format: ${details}` });
+      }
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to start analysis: ${errorMessage}` });
+    }
+  });
+
+  // Status, progress so far and, once finished, the result
+  app.get("/api/jobs/:jobId", (req, res) => {
+    const job = jobManager.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  app.delete("/api/jobs/:jobId", (req, res) => {
+    const job = jobManager.cancel(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  // The job's updates as Server-Sent Events; a reconnecting client sends Last-Event-ID and gets only
+  // what it missed. The stream ends after the "complete" or "error" event; disconnecting leaves the job running
+  app.get("/api/jobs/:jobId/events", (req, res) => {
+    const lastEventId = Number(req.get('Last-Event-ID') ?? 0);
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      return res.status(400).json({ error: "Invalid Last-Event-ID" });
+    }
+    if (!jobManager.get(req.params.jobId)) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    // Comments keep proxies from closing an idle stream while a long call runs
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const unsubscribe = jobManager.subscribe(req.params.jobId, lastEventId, event => {
+      if (res.writableEnded) return;
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      if (event.data.type === 'complete' || event.data.type === 'error') {
+        res.end();
+      }
+    });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+  });
+
+  // Re-runs the failed chunks of a chunked analysis from its checkpoint as a new job; the job's result
+  // replaces the analysis under the same id. While a retry is running, the same job is returned.
+  app.post("/api/results/:resultId/retry-failed", async (req, res) => {
+    try {
+      const { resultId } = req.params;
+      const request = await analysisService.getCheckpointRequest(resultId);
+      if (!request) {
+        return res.status(404).json({ error: "No checkpoint found for this analysis" });
+      }
+
+      const activeJobId = activeRetries.get(resultId);
+      const activeJob = activeJobId ? jobManager.get(activeJobId) : undefined;
+      if (activeJob?.status === "running") {
+        return res.status(202).json(activeJob);
+      }
+
+      const job = jobManager.start(request, async (onUpdate, signal) => {
+        try {
+          return await analysisService.retryFailedChunks(resultId, onUpdate, signal);
+        } finally {
+          activeRetries.delete(resultId);
+        }
+      });
+      activeRetries.set(resultId, job.id);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Retry error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      res.status(500).json({ error: `Failed to retry chunks: ${errorMessage}` });
+    }
+  });
+
+  // A stored result as JSON, e.g. one provider's part of a consensus run
+  app.get("/api/results/:resultId", (req, res) => {
+    const result = analysisService.getResult(req.params.resultId);
+    if (!result) {
+      return res.status(404).json({ error: "Result not found" });
+    }
+    res.json(result);
+  });
+
   // Download results
   app.get("/api/download/:resultId", async (req, res) => {
     try {
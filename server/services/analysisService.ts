@@ -1,6 +1,39 @@
-import { AnalysisRequest, AnalysisResult } from "@shared/schema";
-import { LLMService } from "./llmService";
+import { AnalysisRequest, AnalysisResult, GenerationParams, analysisOutputSchema, type AnalysisOutput, type AssessmentPhase, type Consensus, type OutputPath, type PromptPreview, type SampleDistribution, type ScoreSpread, type SynthesisNode } from "@shared/schema";
+import type { ZodIssue } from "zod";
+import { LLMService, type FailoverInfo, type LLMResponse, type ResponseSchema, type RetryInfo } from "./llmService";
+import type { QueuePosition } from "./llmCallQueue";
+import { ResponseCache, type ResponseCacheKey } from "./responseCache";
+import { UsageMeter } from "./usageMeter";
+import { ChunkPacer } from "./chunkPacer";
+import { CheckpointStore, type ChunkOutcome } from "./checkpointStore";
+import { ProtocolLibrary, type ResolvedProtocol } from "./protocolLibrary";
 import { randomUUID } from "crypto";
+import { sleep } from "../utils/abort";
+import { toJsonSchema } from "../utils/jsonSchema";
+import { chunkText as splitText, type ChunkingOptions } from "../utils/textChunking";
+import { bootstrapInterval, mean, median, standardDeviation } from "../utils/statistics";
+import { estimateTokens } from "../utils/tokenEstimate";
+
+const ANALYSIS_RESPONSE_SCHEMA: ResponseSchema = { name: "analysis_result", schema: toJsonSchema(analysisOutputSchema) };
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const DEFAULT_PUSHBACK_THRESHOLD = 95;
+const DEFAULT_DISAGREEMENT_THRESHOLD = 15;
+const SAMPLING_CONFIDENCE_LEVEL = 0.95;
+// Each synthesis call integrates at most this many assessments, within the prompt budget
+const SYNTHESIS_MAX_GROUP = 8;
+const SYNTHESIS_MAX_PROMPT_CHARS = 40000;
+
+// Identifies one streaming run to the call queue and carries its cancellation signal
+interface RunContext {
+  jobId: string;
+  signal?: AbortSignal;
+}
+
+// Runs one follow-up phase of a long-mode assessment and returns its parsed output
+type PhaseCall = (prompt: string, phase: AssessmentPhase["phase"]) => Promise<{ response: LLMResponse; parsed: any }>;
+
+// Runs one synthesis call of a chunked analysis and returns its parsed output
+type SynthesisCall = (prompt: string, label: string) => Promise<{ response: LLMResponse; parsed: any }>;
 
 interface TextChunk {
   id: string;
@@ -8,173 +41,748 @@ interface TextChunk {
   wordCount: number;
   title: string;
   preview: string;
+  // Character offsets of the chunk in the original text (end exclusive)
+  start: number;
+  end: number;
   selected: boolean;
 }
 
 export class AnalysisService {
   private results: Map<string, AnalysisResult> = new Map();
   
-  constructor(private llmService: LLMService) {}
-
-  chunkText(text: string, chunkSize: number = 1000): TextChunk[] {
-    const words = text.split(/\s+/);
-    const chunks: TextChunk[] = [];
-    
-    for (let i = 0; i < words.length; i += chunkSize) {
-      const chunkWords = words.slice(i, i + chunkSize);
-      const chunkText = chunkWords.join(' ');
-      const preview = chunkText.length > 200 ? chunkText.substring(0, 200) + '...' : chunkText;
-      
-      chunks.push({
-        id: randomUUID(),
-        text: chunkText,
-        wordCount: chunkWords.length,
-        title: `Chunk ${chunks.length + 1}`,
-        preview,
-        selected: false
-      });
+  constructor(
+    private llmService: LLMService,
+    private cache?: ResponseCache,
+    private usageMeter?: UsageMeter,
+    private pacer: ChunkPacer = new ChunkPacer(),
+    private checkpoints?: CheckpointStore,
+    private protocols: ProtocolLibrary = ProtocolLibrary.loadFromDirectory(),
+    // ANALYSIS_REPAIR_ATTEMPTS=0 fails malformed responses without asking the model to correct them
+    private maxRepairAttempts: number = process.env.ANALYSIS_REPAIR_ATTEMPTS !== undefined ? Number(process.env.ANALYSIS_REPAIR_ATTEMPTS) : DEFAULT_REPAIR_ATTEMPTS
+  ) {
+    if (!Number.isInteger(maxRepairAttempts) || maxRepairAttempts < 0) {
+      throw new Error(`Invalid ANALYSIS_REPAIR_ATTEMPTS: ${maxRepairAttempts}`);
     }
-    
-    return chunks;
+  }
+
+  chunkText(text: string, options: ChunkingOptions): TextChunk[] {
+    return splitText(text, options).map((chunk, i) => ({
+      id: randomUUID(),
+      text: chunk.text,
+      wordCount: chunk.wordCount,
+      title: chunk.title ?? `Chunk ${i + 1}`,
+      preview: chunk.text.length > 200 ? chunk.text.substring(0, 200) + '...' : chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+      selected: false
+    }));
   }
 
   async analyze(request: AnalysisRequest): Promise<AnalysisResult> {
-    // Check if we have chunks to process sequentially
+    request = this.pinProtocol(request);
+    this.usageMeter?.assertWithinBudget(this.getProviderChain(request));
+    
+    // Check if we have chunks to process
     if (request.chunks?.some(chunk => chunk.selected)) {
       return await this.performChunkedAnalysis(request);
     } else {
       // Single text analysis
-      return await this.performStandardAnalysis(request, request.text);
+      return await this.sampleAnalysis(request, runRequest => this.performStandardAnalysis(runRequest, request.text), "Full text");
     }
   }
 
-  async analyzeWithStreaming(request: AnalysisRequest, onUpdate: (update: any) => void): Promise<AnalysisResult> {
+  // Aborting the signal stops all delays and provider calls; the result is then marked cancelled
+  async analyzeWithStreaming(request: AnalysisRequest, onUpdate: (update: any) => void, signal?: AbortSignal): Promise<AnalysisResult> {
+    request = this.pinProtocol(request);
+    if (request.consensusProviders) {
+      return await this.performConsensusAnalysis(request, onUpdate, signal);
+    }
+    
+    // Refuse before any provider is called once a spending cap is reached
+    this.usageMeter?.assertWithinBudget(this.getProviderChain(request));
     onUpdate({ type: 'status', message: 'Starting analysis...', phase: 'initialization' });
     
-    // Check if we have chunks to process sequentially
-    if (request.chunks?.some(chunk => chunk.selected)) {
-      return await this.performChunkedAnalysisWithStreaming(request, onUpdate);
-    } else {
+    const context: RunContext = { jobId: randomUUID(), signal };
+    
+    // Check if we have chunks to process
+    const result = request.chunks?.some(chunk => chunk.selected)
+      ? await this.performChunkedAnalysisWithStreaming(request, onUpdate, context)
       // Single text analysis
-      return await this.performStandardAnalysisWithStreaming(request, request.text, onUpdate);
+      : await this.sampleAnalysis(request, runRequest =>
+          this.performStandardAnalysisWithStreaming(runRequest, request.text, onUpdate, context, "Full text"), "Full text", onUpdate, signal);
+    
+    return this.adoptRunId(result, context.jobId);
+  }
+
+  // The request of a chunked analysis that has a checkpoint, i.e. one whose failed chunks can be retried
+  async getCheckpointRequest(runId: string): Promise<AnalysisRequest | undefined> {
+    return (await this.checkpoints?.load(runId))?.request;
+  }
+
+  // Re-runs the chunks of a checkpointed analysis that failed or never started and synthesizes again with
+  // the chunks that had succeeded; the result keeps the analysis's id. Works from the checkpoint on disk,
+  // so also after a restart.
+  async retryFailedChunks(runId: string, onUpdate: (update: any) => void, signal?: AbortSignal): Promise<AnalysisResult> {
+    const checkpoint = await this.checkpoints?.load(runId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for analysis ${runId}`);
+    }
+    
+    this.usageMeter?.assertWithinBudget(this.getProviderChain(checkpoint.request));
+    onUpdate({ type: 'status', message: 'Retrying failed chunks...', phase: 'initialization' });
+    
+    const context: RunContext = { jobId: runId, signal };
+    const result = await this.performChunkedAnalysisWithStreaming(checkpoint.request, onUpdate, context, checkpoint.chunks);
+    return this.adoptRunId(result, runId);
+  }
+
+  // Runs the whole analysis once per provider, then measures how far their scores agree
+  private async performConsensusAnalysis(request: AnalysisRequest, onUpdate: (update: any) => void, signal?: AbortSignal): Promise<AnalysisResult> {
+    const providers = request.consensusProviders!;
+    this.usageMeter?.assertWithinBudget(providers);
+    
+    const members: AnalysisResult[] = [];
+    const outcomes: Consensus["members"] = [];
+    
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+      onUpdate({ type: 'status', message: `Consensus: analyzing with ${provider} (${i + 1}/${providers.length})...`, phase: 'consensus', provider });
+      
+      const memberRequest: AnalysisRequest = {
+        ...request,
+        llmProvider: provider,
+        fallbackProviders: undefined,
+        consensusProviders: undefined,
+        // As with failover, a model override only applies to the primary provider
+        model: provider === request.llmProvider ? request.model : undefined
+      };
+      
+      try {
+        const result = await this.analyzeWithStreaming(memberRequest, onUpdate, signal);
+        if (result.cancelled) {
+          outcomes.push({ provider, error: "Cancelled" });
+          break;
+        }
+        members.push(result);
+        outcomes.push({ provider, resultId: result.id, overallScore: result.overallScore });
+      } catch (error) {
+        if (signal?.aborted) break;
+        console.error(`Consensus member ${provider} failed:`, error);
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        outcomes.push({ provider, error: errorMessage });
+        onUpdate({ type: 'status', message: `Consensus: ${provider} failed (${errorMessage})`, phase: 'consensus', provider });
+      }
+    }
+    
+    if (members.length === 0) {
+      if (signal?.aborted) return this.recordCancelledResult(request, "");
+      throw new Error(`All consensus providers failed (${outcomes.map(outcome => `${outcome.provider}: ${outcome.error}`).join('; ')})`);
+    }
+    
+    onUpdate({ type: 'status', message: 'Measuring agreement between providers...', phase: 'consensus' });
+    const result = this.buildConsensusResult(request, members, outcomes);
+    if (signal?.aborted) {
+      result.cancelled = true;
+    }
+    
+    this.results.set(result.id, result);
+    return result;
+  }
+
+  private buildConsensusResult(request: AnalysisRequest, members: AnalysisResult[], outcomes: Consensus["members"]): AnalysisResult {
+    const threshold = request.disagreementThreshold ?? DEFAULT_DISAGREEMENT_THRESHOLD;
+    const spreadOf = (scores: Record<string, number>): ScoreSpread => {
+      const values = Object.values(scores);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      return { scores, mean: mean(values), median: median(values), min, max, spread: max - min, disagreement: max - min > threshold };
+    };
+    
+    // Questions are matched by their text, in the order they first appear
+    const questionMap = new Map<string, { scores: Record<string, number>; answers: string[] }>();
+    members.forEach(member => {
+      member.questions.forEach(q => {
+        if (!questionMap.has(q.question)) {
+          questionMap.set(q.question, { scores: {}, answers: [] });
+        }
+        questionMap.get(q.question)!.scores[member.llmProvider] = q.score;
+        questionMap.get(q.question)!.answers.push(`[${member.llmProvider}] ${q.answer}`);
+      });
+    });
+    
+    const questionSpreads = Array.from(questionMap.entries()).map(([question, data]) => ({ question, ...spreadOf(data.scores) }));
+    const overall = spreadOf(Object.fromEntries(members.map(member => [member.llmProvider, member.overallScore])));
+    const providerList = members.map(member => member.llmProvider).join(', ');
+    
+    return {
+      id: randomUUID(),
+      mode: request.mode,
+      llmProvider: request.llmProvider,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
+      overallScore: Math.round(overall.mean),
+      summary: `Consensus of ${members.length} providers (${providerList}): ${members.map(member => `[${member.llmProvider}] ${member.summary}`).join(' ')}`,
+      category: Array.from(new Set(members.map(member => member.category))).join(', '),
+      questions: questionSpreads.map(spread => ({
+        question: spread.question,
+        answer: questionMap.get(spread.question)!.answers.join('\n\n'),
+        score: Math.round(spread.mean)
+      })),
+      finalAssessment: members.map(member => `[${member.llmProvider}] ${member.finalAssessment}`).join(' '),
+      timestamp: new Date().toISOString(),
+      rawResponse: members.map(member => `PROVIDER ${member.llmProvider}:\n${member.rawResponse}`).join('\n\n---\n\n'),
+      ...(members.every(member => member.fromCache) ? {
+        fromCache: true,
+        cachedAt: members.map(member => member.cachedAt).sort()[0]
+      } : {}),
+      consensus: { threshold, overall, questions: questionSpreads, members: outcomes }
+    };
+  }
+
+  // Runs the same analysis request.samples times and reports how its scores vary between runs;
+  // a failed run is left out as long as at least one succeeds
+  private async sampleAnalysis(
+    request: AnalysisRequest,
+    runOnce: (runRequest: AnalysisRequest) => Promise<AnalysisResult>,
+    label: string,
+    onUpdate?: (update: any) => void,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> {
+    const requestedRuns = request.samples ?? 1;
+    if (requestedRuns < 2) return await runOnce(request);
+    
+    // A cached answer would repeat the same scores, so every run goes to the provider
+    const runRequest: AnalysisRequest = { ...request, cachePolicy: "bypass" };
+    const runs: AnalysisResult[] = [];
+    let lastError: unknown;
+    
+    for (let run = 1; run <= requestedRuns; run++) {
+      onUpdate?.({ type: 'status', message: `${label}: run ${run}/${requestedRuns}...`, phase: 'sampling', run, total: requestedRuns });
+      
+      try {
+        const result = await runOnce(runRequest);
+        if (result.cancelled) {
+          if (runs.length === 0) return result;
+          break;
+        }
+        runs.push(result);
+      } catch (error) {
+        if (signal?.aborted) break;
+        console.error(`${label} run ${run} failed:`, error);
+        lastError = error;
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        onUpdate?.({ type: 'status', message: `${label}: run ${run} failed (${errorMessage})`, phase: 'sampling', run, total: requestedRuns });
+      }
     }
+    
+    if (runs.length === 0) {
+      throw lastError ?? new Error(`${label}: no run completed`);
+    }
+    
+    const result = this.buildSampledResult(runs, requestedRuns);
+    if (signal?.aborted) {
+      result.cancelled = true;
+    }
+    
+    this.results.set(result.id, result);
+    return result;
+  }
+
+  // Scores become the run means; the run whose overall score is closest to the mean supplies the text
+  private buildSampledResult(runs: AnalysisResult[], requestedRuns: number): AnalysisResult {
+    const distributionOf = (values: number[]): SampleDistribution => ({
+      values,
+      mean: mean(values),
+      sd: standardDeviation(values),
+      min: Math.min(...values),
+      max: Math.max(...values),
+      interval: bootstrapInterval(values, SAMPLING_CONFIDENCE_LEVEL)
+    });
+    
+    // Questions are matched by their text, in the order they first appear
+    const questionScores = new Map<string, number[]>();
+    runs.forEach(run => {
+      run.questions.forEach(q => {
+        if (!questionScores.has(q.question)) {
+          questionScores.set(q.question, []);
+        }
+        questionScores.get(q.question)!.push(q.score);
+      });
+    });
+    
+    const overall = distributionOf(runs.map(run => run.overallScore));
+    const questions = Array.from(questionScores.entries()).map(([question, values]) => ({ question, ...distributionOf(values) }));
+    const distanceFromMean = (run: AnalysisResult) => Math.abs(run.overallScore - overall.mean);
+    const representative = runs.reduce((best, run) => distanceFromMean(run) < distanceFromMean(best) ? run : best);
+    const answerTo = (question: string) => [representative, ...runs]
+      .flatMap(run => run.questions)
+      .find(q => q.question === question)!.answer;
+    const repairAttempts = runs.reduce((sum, run) => sum + (run.repairAttempts ?? 0), 0);
+    
+    return {
+      ...representative,
+      id: randomUUID(),
+      overallScore: Math.round(overall.mean),
+      questions: questions.map(distribution => ({
+        question: distribution.question,
+        answer: answerTo(distribution.question),
+        score: Math.round(distribution.mean)
+      })),
+      timestamp: new Date().toISOString(),
+      rawResponse: runs.map((run, index) => `RUN ${index + 1}:\n${run.rawResponse}`).join('\n\n---\n\n'),
+      repairAttempts: repairAttempts || undefined,
+      sampling: {
+        runs: runs.length,
+        requestedRuns,
+        confidenceLevel: SAMPLING_CONFIDENCE_LEVEL,
+        overall,
+        questions,
+        resultIds: runs.map(run => run.id)
+      }
+    };
+  }
+
+  // The finished result takes the run's id, which is also the analysisId on its usage records
+  private adoptRunId(result: AnalysisResult, runId: string): AnalysisResult {
+    this.results.delete(result.id);
+    const adopted = { ...result, id: runId };
+    this.results.set(runId, adopted);
+    return adopted;
   }
 
   private async performStandardAnalysis(request: AnalysisRequest, analysisText: string): Promise<AnalysisResult> {
-    const questions = this.getQuestionsForMode(request.mode);
-    const systemPrompt = this.getSystemPrompt(request.mode);
-    const prompt = this.buildAnalysisPrompt(analysisText, questions, request.mode, request.backgroundInfo, request.critique, request.originalAnalysis);
+    const protocol = this.protocolFor(request);
+    const systemPrompt = protocol.systemPrompt;
+    const prompt = this.buildAnalysisPrompt(request, analysisText, protocol);
+
+    const cacheKey = this.buildCacheKey(request, prompt, systemPrompt);
+    const cached = await this.lookupCache(request, cacheKey);
+    if (cached) return cached;
 
-    const rawResponse = await this.llmService.callLLM(request.llmProvider, prompt, systemPrompt);
-    const parsedResult = this.parseAnalysisResponse(rawResponse, request.mode, request.llmProvider);
+    const callAndParse = async (callPrompt: string) => {
+      const response = await this.llmService.callLLMWithFailover(
+        this.getProviderChain(request), callPrompt, systemPrompt, {
+          generation: this.getGenerationParams(request),
+          usageTags: { mode: request.mode },
+          responseSchema: ANALYSIS_RESPONSE_SCHEMA
+        }
+      );
+      return { response, parsed: await this.parseWithRepair(request, response) };
+    };
+
+    const { response, parsed: parsedResult } = await callAndParse(prompt);
+    const { text: rawResponse, provider, generation } = response;
     
-    const result: AnalysisResult = {
+    let result: AnalysisResult = {
       id: randomUUID(),
       mode: request.mode,
       llmProvider: request.llmProvider,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
       overallScore: parsedResult.overallScore,
       summary: parsedResult.summary,
       category: parsedResult.category,
       questions: parsedResult.questions,
       finalAssessment: parsedResult.finalAssessment,
       timestamp: new Date().toISOString(),
-      rawResponse
+      rawResponse,
+      providerUsed: provider,
+      generation,
+      outputPath: parsedResult.outputPath,
+      repairAttempts: parsedResult.repairAttempts
     };
 
+    if (this.isLongMode(request.mode)) {
+      result = await this.runLongAssessment(request, analysisText, result, callAndParse);
+    }
+
     this.results.set(result.id, result);
+    await this.storeInCache(request, cacheKey, result);
     return result;
   }
 
-  private async performStandardAnalysisWithStreaming(request: AnalysisRequest, analysisText: string, onUpdate: (update: any) => void): Promise<AnalysisResult> {
-    // CHUNKED PROTOCOL DELIVERY IMPLEMENTATION
-    const questions = this.getQuestionsForMode(request.mode);
-    const fullPrompt = this.buildAnalysisPrompt(analysisText, questions, request.mode, request.backgroundInfo, request.critique, request.originalAnalysis);
+  private async performStandardAnalysisWithStreaming(request: AnalysisRequest, analysisText: string, onUpdate: (update: any) => void, context: RunContext, label: string): Promise<AnalysisResult> {
+    const { signal } = context;
+    // Whatever the model has produced so far; kept as the partial output if the client cancels
+    const stream = { content: "" };
     
-    // Split the protocol into chunks for better processing
-    const protocolChunks = this.splitIntoChunks(fullPrompt, 2000);
-    const textChunks = analysisText.length > 500 ? this.splitIntoChunks(analysisText, 1000) : [analysisText];
-    
-    onUpdate({ type: 'status', message: `Sending protocol in ${protocolChunks.length} chunks...`, phase: 'protocol-delivery' });
-    
-    // Build chunked prompt with delays
-    let chunkedPrompt = '';
+    try {
+      // CHUNKED PROTOCOL DELIVERY IMPLEMENTATION
+      const { protocolChunks, textChunks, prompt: chunkedPrompt } = this.planPromptDelivery(request, analysisText);
+      const systemPrompt = this.protocolFor(request).systemPrompt;
+    
+      const cacheKey = this.buildCacheKey(request, chunkedPrompt, systemPrompt);
+      const cached = await this.lookupCache(request, cacheKey);
+      if (cached) {
+        onUpdate({ type: 'status', message: `Served from cache (originally analyzed ${cached.cachedAt})`, phase: 'cache' });
+        onUpdate({ type: 'progress', result: cached });
+        return cached;
+      }
     
-    // Send protocol chunks with 2-second delays
-    for (let i = 0; i < protocolChunks.length; i++) {
-      onUpdate({ 
-        type: 'status', 
-        message: `Delivering protocol chunk ${i + 1}/${protocolChunks.length}...`, 
-        phase: 'protocol-chunk',
-        chunk: i + 1,
-        total: protocolChunks.length
-      });
-      
-      chunkedPrompt += protocolChunks[i] + '\n';
+      onUpdate({ type: 'status', message: `Sending protocol in ${protocolChunks.length} chunks...`, phase: 'protocol-delivery' });
+      // Pause between pieces only when the pacing policy asks for it
+      const { deliveryDelayMs } = this.pacer.policyFor(request.llmProvider);
+    
+      // Send protocol chunks
+      for (let i = 0; i < protocolChunks.length; i++) {
+        onUpdate({ 
+          type: 'status', 
+          message: `Delivering protocol chunk ${i + 1}/${protocolChunks.length}...`, 
+          phase: 'protocol-chunk',
+          chunk: i + 1,
+          total: protocolChunks.length
+        });
       
-      if (i < protocolChunks.length - 1) {
-        onUpdate({ type: 'status', message: 'Processing protocol chunk...', phase: 'protocol-processing' });
-        await this.delay(2000); // 2 second delay between protocol chunks
+        if (deliveryDelayMs > 0 && i < protocolChunks.length - 1) {
+          onUpdate({ type: 'status', message: 'Processing protocol chunk...', phase: 'protocol-processing' });
+          await this.delay(deliveryDelayMs, signal);
+        }
       }
-    }
     
-    // Add text delivery with 1-second delays
-    onUpdate({ type: 'status', message: `Sending text in ${textChunks.length} chunks...`, phase: 'text-delivery' });
-    chunkedPrompt += '\n\nText to analyze:\n';
+      // Add text delivery
+      onUpdate({ type: 'status', message: `Sending text in ${textChunks.length} chunks...`, phase: 'text-delivery' });
     
-    for (let i = 0; i < textChunks.length; i++) {
-      onUpdate({ 
-        type: 'status', 
-        message: `Delivering text chunk ${i + 1}/${textChunks.length}...`, 
-        phase: 'text-chunk',
-        chunk: i + 1,
-        total: textChunks.length
-      });
-      
-      chunkedPrompt += textChunks[i] + '\n';
+      for (let i = 0; i < textChunks.length; i++) {
+        onUpdate({ 
+          type: 'status', 
+          message: `Delivering text chunk ${i + 1}/${textChunks.length}...`, 
+          phase: 'text-chunk',
+          chunk: i + 1,
+          total: textChunks.length
+        });
       
-      if (i < textChunks.length - 1) {
-        onUpdate({ type: 'status', message: 'Processing text chunk...', phase: 'text-processing' });
-        await this.delay(1000); // 1 second delay between text chunks
+        if (deliveryDelayMs > 0 && i < textChunks.length - 1) {
+          onUpdate({ type: 'status', message: 'Processing text chunk...', phase: 'text-processing' });
+          await this.delay(deliveryDelayMs, signal);
+        }
       }
-    }
 
-    onUpdate({ type: 'status', message: `Starting real-time analysis with ${request.llmProvider}...`, phase: 'llm-streaming' });
+      onUpdate({ type: 'status', message: `Starting real-time analysis with ${request.llmProvider}...`, phase: 'llm-streaming' });
+      const { response, parsed: parsedResult } = await this.streamAnalysisCall(request, chunkedPrompt, systemPrompt, onUpdate, context, label, stream);
+      const { text: rawResponse, provider, generation } = response;
     
+      let result: AnalysisResult = {
+        id: randomUUID(),
+        mode: request.mode,
+        llmProvider: request.llmProvider,
+        protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
+        overallScore: parsedResult.overallScore,
+        summary: parsedResult.summary,
+        category: parsedResult.category,
+        questions: parsedResult.questions,
+        finalAssessment: parsedResult.finalAssessment,
+        timestamp: new Date().toISOString(),
+        rawResponse,
+        providerUsed: provider,
+        generation,
+        outputPath: parsedResult.outputPath,
+        repairAttempts: parsedResult.repairAttempts
+      };
+
+      if (this.isLongMode(request.mode)) {
+        result = await this.runLongAssessment(request, analysisText, result, (phasePrompt, phase) =>
+          this.streamAnalysisCall(request, phasePrompt, systemPrompt, onUpdate, context, `${label} · ${phase}`, stream), onUpdate);
+      }
+
+      this.results.set(result.id, result);
+      await this.storeInCache(request, cacheKey, result);
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        return this.recordCancelledResult(request, stream.content);
+      }
+      throw error;
+    }
+  }
+
+  // One streamed model call, parsed (and repaired if needed); stream.content follows the text as it arrives
+  private async streamAnalysisCall(
+    request: AnalysisRequest,
+    prompt: string,
+    systemPrompt: string | undefined,
+    onUpdate: (update: any) => void,
+    context: RunContext,
+    label: string,
+    stream: { content: string }
+  ): Promise<{ response: LLMResponse; parsed: any }> {
+    stream.content = "";
+  
     // REAL-TIME STREAMING - Display analysis as it's generated
-    let streamedContent = "";
     const onChunk = (chunk: string) => {
-      streamedContent += chunk;
+      stream.content += chunk;
       onUpdate({ 
         type: 'streaming_text', 
         chunk: chunk,
-        accumulated: streamedContent,
+        accumulated: stream.content,
         message: 'Generating analysis...'
       });
     };
+  
+    const onRetry = (info: RetryInfo) => {
+      // The retried call streams from scratch, so drop what the failed attempt produced
+      stream.content = "";
+      onUpdate({
+        type: 'status',
+        message: `${info.error} - retrying in ${Math.ceil(info.delayMs / 1000)}s (attempt ${info.attempt + 1}/${info.maxAttempts})...`,
+        phase: 'retry',
+        attempt: info.attempt + 1,
+        maxAttempts: info.maxAttempts,
+        delayMs: info.delayMs
+      });
+    };
+  
+    const onQueued = (info: QueuePosition) => {
+      onUpdate({
+        type: 'status',
+        message: `Waiting for ${info.provider}: position ${info.position} in queue (${info.active}/${info.maxConcurrency} calls running)...`,
+        phase: 'queued',
+        provider: info.provider,
+        position: info.position
+      });
+    };
+  
+    const onFailover = (info: FailoverInfo) => {
+      stream.content = "";
+      onUpdate({
+        type: 'status',
+        message: `${info.failedProvider} failed (${info.error}) - continuing with ${info.nextProvider}...`,
+        phase: 'failover',
+        failedProvider: info.failedProvider,
+        provider: info.nextProvider
+      });
+    };
+  
+    const response = await this.llmService.callLLMWithStreamingFailover(
+      this.getProviderChain(request), prompt, onChunk, systemPrompt, {
+        onRetry,
+        onFailover,
+        onQueued,
+        generation: this.getGenerationParams(request),
+        signal: context.signal,
+        jobId: context.jobId,
+        jobLabel: `${request.mode} · ${label}`,
+        usageTags: { analysisId: context.jobId, mode: request.mode },
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA
+      }
+    );
+  
+    onUpdate({ type: 'status', message: 'Finalizing analysis...', phase: 'parsing' });
+    const parsed = await this.parseWithRepair(request, response, onUpdate, context, label);
+    onUpdate({ type: 'progress', result: parsed, label });
+    return { response, parsed };
+  }
+
+  // Long modes follow the initial pass with pushback and reconciliation phases
+  isLongMode(mode: string): boolean {
+    return mode.endsWith('-long');
+  }
+
+  // Long modes: scores below the pushback threshold are challenged, then the model reconciles
+  // its initial assessment with its answers to the challenge; every phase is kept on the result
+  private async runLongAssessment(request: AnalysisRequest, analysisText: string, initial: AnalysisResult, callPhase: PhaseCall, onUpdate?: (update: any) => void): Promise<AnalysisResult> {
+    const threshold = request.pushbackThreshold ?? DEFAULT_PUSHBACK_THRESHOLD;
+    const initialPhase: AssessmentPhase = {
+      phase: "initial",
+      provider: initial.providerUsed,
+      overallScore: initial.overallScore,
+      summary: initial.summary,
+      category: initial.category,
+      questions: initial.questions,
+      finalAssessment: initial.finalAssessment,
+      rawResponse: initial.rawResponse
+    };
+
+    const challenged = initial.questions.filter(q => q.score < threshold);
+    if (challenged.length === 0) {
+      onUpdate?.({ type: 'status', message: `No score below ${threshold} - skipping pushback`, phase: 'pushback' });
+      return { ...initial, phases: [initialPhase] };
+    }
+
+    onUpdate?.({ type: 'status', message: `Pushback: challenging ${challenged.length} scores below ${threshold}...`, phase: 'pushback' });
+    const pushback = await callPhase(this.buildPushbackPrompt(analysisText, challenged), "pushback");
+    const pushbackPhase = this.toAssessmentPhase("pushback", pushback, challenged.map(q => q.question));
+
+    onUpdate?.({ type: 'status', message: 'Reconciling the initial assessment with the pushback answers...', phase: 'reconciliation' });
+    const reconciliation = await callPhase(this.buildReconciliationPrompt(analysisText, initialPhase, pushbackPhase), "reconciliation");
+    const finalPhase = this.toAssessmentPhase("reconciliation", reconciliation);
+
+    const phases = [initialPhase, pushbackPhase, finalPhase];
+    const repairAttempts = (initial.repairAttempts ?? 0) + (pushback.parsed.repairAttempts ?? 0) + (reconciliation.parsed.repairAttempts ?? 0);
+    return {
+      ...initial,
+      overallScore: finalPhase.overallScore,
+      summary: finalPhase.summary,
+      category: finalPhase.category,
+      questions: finalPhase.questions,
+      finalAssessment: finalPhase.finalAssessment,
+      rawResponse: phases.map(phase => `${phase.phase.toUpperCase()}:\n${phase.rawResponse}`).join('\n\n---\n\n'),
+      outputPath: reconciliation.parsed.outputPath,
+      repairAttempts: repairAttempts || undefined,
+      phases
+    };
+  }
+
+  private toAssessmentPhase(phase: AssessmentPhase["phase"], { response, parsed }: { response: LLMResponse; parsed: any }, challenged?: string[]): AssessmentPhase {
+    return {
+      phase,
+      provider: response.provider,
+      overallScore: parsed.overallScore,
+      summary: parsed.summary,
+      category: parsed.category,
+      questions: parsed.questions,
+      finalAssessment: parsed.finalAssessment,
+      rawResponse: response.text,
+      challenged
+    };
+  }
+
+  private buildPushbackPrompt(text: string, challenged: AnalysisResult["questions"]): string {
+    let prompt = `TEXT:\n${text}\n\n`;
+    prompt += `You assessed this text and gave the following answers and scores:\n\n`;
+    challenged.forEach((q, index) => {
+      prompt += `${index + 1}. ${q.question}\n`;
+      prompt += `Your answer: ${q.answer}\n`;
+      prompt += `Your score: ${q.score}/100. In other words, you are saying that ${100 - q.score}/100 outperform the author with respect to this parameter.\n\n`;
+    });
+    prompt += `Are you sure? Reconsider each of these questions from the text itself. `;
+    prompt += `Do not hold on to your earlier answer for its own sake, and do not change it merely because it is being questioned; give each question the score it deserves.\n\n`;
+    prompt += `Format your response as JSON with summary, category, questions array (each with question, answer, score) containing only the questions above, overallScore, and finalAssessment.\n\n`;
+    return prompt;
+  }
+
+  private buildReconciliationPrompt(text: string, initial: AssessmentPhase, pushback: AssessmentPhase): string {
+    const describe = (phase: AssessmentPhase) => phase.questions
+      .map((q, index) => `${index + 1}. ${q.question}\nAnswer: ${q.answer}\nScore: ${q.score}/100\n`)
+      .join('\n');
+
+    let prompt = `TEXT:\n${text}\n\n`;
+    prompt += `INITIAL ASSESSMENT (overall ${initial.overallScore}/100):\n\n${describe(initial)}\nSummary: ${initial.summary}\nFinal assessment: ${initial.finalAssessment}\n\n`;
+    prompt += `ANSWERS AFTER PUSHBACK on the lowest-scored questions (overall ${pushback.overallScore}/100):\n\n${describe(pushback)}\n`;
+    prompt += `Reconcile the two into your final assessment. Answer every question of the initial assessment, `;
+    prompt += `keeping for each whichever position the text better supports, and explain any score that changed.\n\n`;
+    prompt += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
+    return prompt;
+  }
+
+  // The protocol and text pieces announced during streaming delivery, and the prompt they add up to
+  private planPromptDelivery(request: AnalysisRequest, analysisText: string): { protocolChunks: string[]; textChunks: string[]; prompt: string } {
+    const fullPrompt = this.buildAnalysisPrompt(request, analysisText, this.protocolFor(request));
     
-    const rawResponse = await this.llmService.callLLMWithStreaming(request.llmProvider, chunkedPrompt, onChunk);
+    // Split the protocol into chunks for better processing
+    const protocolChunks = this.splitIntoChunks(fullPrompt, 2000);
+    const textChunks = analysisText.length > 500 ? this.splitIntoChunks(analysisText, 1000) : [analysisText];
     
-    onUpdate({ type: 'status', message: 'Finalizing analysis...', phase: 'parsing' });
-    const parsedResult = this.parseAnalysisResponse(rawResponse, request.mode, request.llmProvider);
+    const prompt = protocolChunks.map(chunk => chunk + '\n').join('')
+      + '\n\nText to analyze:\n'
+      + textChunks.map(chunk => chunk + '\n').join('');
+    
+    return { protocolChunks, textChunks, prompt };
+  }
+
+  // Every LLM call /api/analyze would make for this request, with the exact prompts sent
+  buildCallPrompts(request: AnalysisRequest): { chunkId?: string; chunkTitle: string; systemPrompt?: string; prompt: string }[] {
+    const systemPrompt = this.protocolFor(request).systemPrompt;
+    const selectedChunks = request.chunks?.filter(chunk => chunk.selected) || [];
+    if (selectedChunks.length === 0) {
+      return [{ chunkTitle: "Full text", systemPrompt, prompt: this.planPromptDelivery(request, request.text).prompt }];
+    }
     
+    return selectedChunks.map((chunk, i) => ({
+      chunkId: chunk.id,
+      chunkTitle: chunk.title || `Chunk ${i + 1}`,
+      systemPrompt,
+      prompt: this.planPromptDelivery(request, chunk.text).prompt
+    }));
+  }
+
+  // The prompts of every call whose text is known before the run, as sent, with their sizes
+  previewPrompts(request: AnalysisRequest): PromptPreview {
+    request = this.pinProtocol(request);
+    const calls = this.buildCallPrompts(request).map(call => {
+      const sent = (call.systemPrompt ?? "") + call.prompt;
+      return { ...call, characters: sent.length, tokens: estimateTokens(sent) };
+    });
+
+    const notes: string[] = [];
+    if (request.consensusProviders) {
+      notes.push(`Each consensus provider (${request.consensusProviders.join(", ")}) receives these same prompts`);
+    }
+    if (request.samples && request.samples > 1) {
+      notes.push(`Each call is made ${request.samples} times with the same prompt`);
+    }
+    if (this.isLongMode(request.mode)) {
+      notes.push(`Each call is followed by a pushback call on scores below ${request.pushbackThreshold ?? DEFAULT_PUSHBACK_THRESHOLD} and a reconciliation call, both with the system prompt and quoting the earlier answers`);
+    }
+    if (calls.length > 1) {
+      notes.push("Synthesis calls then combine the chunk assessments, with the system prompt and quoting the chunk answers");
+    }
+    notes.push(`Providers with structured output also receive the ${ANALYSIS_RESPONSE_SCHEMA.name} JSON schema; an answer that cannot be parsed is sent back for repair`);
+
+    return {
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
+      calls,
+      totals: {
+        calls: calls.length,
+        characters: calls.reduce((sum, call) => sum + call.characters, 0),
+        tokens: calls.reduce((sum, call) => sum + call.tokens, 0)
+      },
+      notes
+    };
+  }
+
+  // The answer depends on the exact prompt, the primary provider's resolved generation settings and, in long modes, the pushback threshold
+  private buildCacheKey(request: AnalysisRequest, prompt: string, systemPrompt?: string): ResponseCacheKey {
+    return {
+      mode: request.mode,
+      provider: request.llmProvider,
+      generation: this.llmService.resolveGenerationFor(request.llmProvider, this.getGenerationParams(request)),
+      systemPrompt,
+      prompt,
+      pushbackThreshold: this.isLongMode(request.mode) ? request.pushbackThreshold ?? DEFAULT_PUSHBACK_THRESHOLD : undefined
+    };
+  }
+
+  private async lookupCache(request: AnalysisRequest, key: ResponseCacheKey): Promise<AnalysisResult | undefined> {
+    if (!this.cache?.enabled || (request.cachePolicy && request.cachePolicy !== "use")) return undefined;
+
+    const cached = await this.cache.get(key);
+    if (!cached) return undefined;
+
     const result: AnalysisResult = {
+      ...cached,
       id: randomUUID(),
-      mode: request.mode,
       llmProvider: request.llmProvider,
-      overallScore: parsedResult.overallScore,
-      summary: parsedResult.summary,
-      category: parsedResult.category,
-      questions: parsedResult.questions,
-      finalAssessment: parsedResult.finalAssessment,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
       timestamp: new Date().toISOString(),
-      rawResponse
+      fromCache: true,
+      cachedAt: cached.timestamp
     };
-
     this.results.set(result.id, result);
-    onUpdate({ type: 'progress', result: parsedResult });
     return result;
   }
 
+  // Only answers from the primary provider are cached, so a hit always matches the requested provider
+  private async storeInCache(request: AnalysisRequest, key: ResponseCacheKey, result: AnalysisResult): Promise<void> {
+    if (!this.cache?.enabled || request.cachePolicy === "bypass" || result.providerUsed !== request.llmProvider) return;
+    try {
+      await this.cache.set(key, result);
+    } catch (error) {
+      console.error("Failed to store analysis in cache:", error);
+    }
+  }
+
+  // Primary provider first, then any fallbacks, each tried once
+  private getProviderChain(request: AnalysisRequest): string[] {
+    return Array.from(new Set([request.llmProvider, ...(request.fallbackProviders || [])]));
+  }
+
+  private getGenerationParams(request: AnalysisRequest): GenerationParams {
+    return {
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      seed: request.seed
+    };
+  }
+
   private splitIntoChunks(text: string, maxChunkSize: number): string[] {
     const chunks: string[] = [];
     let currentChunk = '';
@@ -200,55 +808,92 @@ export class AnalysisService {
 
 
 
-  private async performChunkedAnalysisWithStreaming(request: AnalysisRequest, onUpdate: (update: any) => void): Promise<AnalysisResult> {
+  // Chunks that already succeeded in previous (from a checkpoint) are reused; the others run and are
+  // checkpointed one by one as they finish
+  private async performChunkedAnalysisWithStreaming(
+    request: AnalysisRequest,
+    onUpdate: (update: any) => void,
+    context: RunContext,
+    previous: (ChunkOutcome | undefined)[] = []
+  ): Promise<AnalysisResult> {
+    const { signal, jobId: runId } = context;
     const selectedChunks = request.chunks?.filter(chunk => chunk.selected) || [];
     
     if (selectedChunks.length === 0) {
       throw new Error("No chunks selected for analysis");
     }
 
-    onUpdate({ type: 'status', message: `Processing ${selectedChunks.length} chunks sequentially with 10-second delays...`, phase: 'chunking' });
-    
-    let combinedResults: any[] = [];
-    let combinedResponses: string[] = [];
+    const pending = selectedChunks.map((_, i) => i).filter(i => !previous[i] || previous[i]!.error);
+    if (previous.length === 0) {
+      await this.checkpoints?.begin(runId, request).catch(error => console.error("Failed to write analysis checkpoint:", error));
+    } else if (pending.length < selectedChunks.length) {
+      onUpdate({ type: 'status', message: `Reusing ${selectedChunks.length - pending.length} completed chunks`, phase: 'chunking' });
+    }
+
+    const policy = this.pacer.policyFor(request.llmProvider);
+    const parallel = Math.min(policy.maxConcurrency, pending.length);
+    onUpdate({
+      type: 'status',
+      message: parallel > 1 ? `Processing ${pending.length} chunks, up to ${parallel} at a time...` : `Processing ${pending.length} chunks sequentially...`,
+      phase: 'chunking'
+    });
     
-    // Process each chunk sequentially with delays
-    for (let i = 0; i < selectedChunks.length; i++) {
+    // Chunks run side by side; rate limits are handled by the call queue and LLMService retries
+    const outcomes: (ChunkOutcome | undefined)[] = selectedChunks.map((_, i) => pending.includes(i) ? undefined : previous[i]);
+    const ran = await this.pacer.run(policy, pending.length, async (k, chunkUpdate) => {
+      const i = pending[k];
       const chunk = selectedChunks[i];
-      onUpdate({ type: 'status', message: `Processing chunk ${i + 1}/${selectedChunks.length}`, phase: 'chunk-processing' });
+      const chunkTitle = chunk.title || `Chunk ${i + 1}`;
+      chunkUpdate({ type: 'status', message: `Processing chunk ${i + 1}/${selectedChunks.length}: ${chunkTitle}`, phase: 'chunk-processing' });
       
+      let outcome: ChunkOutcome;
       try {
-        const chunkResult = await this.performStandardAnalysisWithStreaming(request, chunk.text, onUpdate);
-        
-        combinedResults.push({
-          chunkId: chunk.id,
-          chunkTitle: `Chunk ${i + 1}`,
-          ...chunkResult
-        });
-        
-        combinedResponses.push(`CHUNK ${i + 1}:\n${chunkResult.rawResponse}`);
-        
-        // Wait 10 seconds before processing next chunk (except for the last one)
-        if (i < selectedChunks.length - 1) {
-          onUpdate({ type: 'status', message: `Waiting 10 seconds before processing next chunk...`, phase: 'delay' });
-          await this.delay(10000);
-        }
+        const chunkResult = await this.sampleAnalysis(request, runRequest =>
+          this.performStandardAnalysisWithStreaming(runRequest, chunk.text, chunkUpdate, context, chunkTitle), chunkTitle, chunkUpdate, signal);
         
+        // A cancelled chunk is not analyzed; the chunks that finished are kept
+        outcome = chunkResult.cancelled
+          ? { chunkId: chunk.id, chunkTitle, error: "Cancelled" }
+          : { chunkId: chunk.id, chunkTitle, ...chunkResult };
       } catch (error) {
         console.error(`Error processing chunk ${i + 1}:`, error);
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        combinedResults.push({
-          chunkId: chunk.id,
-          chunkTitle: `Chunk ${i + 1}`,
-          error: errorMessage
-        });
+        outcome = { chunkId: chunk.id, chunkTitle, error: errorMessage };
       }
+      
+      await this.checkpoints?.saveChunk(runId, i, outcome).catch(error => console.error(`Failed to checkpoint chunk ${i + 1}:`, error));
+      return outcome;
+    }, onUpdate, signal);
+    
+    // Chunks left unstarted by a cancellation are reported as failed so they can be retried
+    pending.forEach((i, k) => {
+      const chunk = selectedChunks[i];
+      outcomes[i] = ran[k] ?? { chunkId: chunk.id, chunkTitle: chunk.title || `Chunk ${i + 1}`, error: "Not started" };
+    });
+    
+    const { combinedResults, combinedResponses } = this.collectChunkOutcomes(outcomes);
+    
+    if (signal?.aborted && combinedResponses.length === 0) {
+      return this.recordCancelledResult(request, "");
+    }
+    
+    // With nothing to synthesize the run still ends with a result, so its failed chunks can be retried
+    if (combinedResponses.length === 0 && this.checkpoints?.enabled) {
+      return this.recordFailedChunksResult(request, combinedResults);
     }
     
     // Synthesize results from all chunks
     onUpdate({ type: 'status', message: 'Synthesizing results from all chunks...', phase: 'synthesis' });
-    const synthesizedResult = this.synthesizeChunkResults(combinedResults, request);
-    synthesizedResult.rawResponse = combinedResponses.join('\n\n---\n\n');
+    const systemPrompt = this.protocolFor(request).systemPrompt;
+    const stream = { content: "" };
+    const synthesizedResult = await this.synthesizeChunks(combinedResults, combinedResponses, request, (prompt, label) =>
+      this.streamAnalysisCall(request, prompt, systemPrompt, onUpdate, context, label, stream), onUpdate, signal);
+    if (signal?.aborted) {
+      synthesizedResult.cancelled = true;
+    }
+    if (this.checkpoints?.enabled) {
+      synthesizedResult.checkpointed = true;
+    }
     
     this.results.set(synthesizedResult.id, synthesizedResult);
     return synthesizedResult;
@@ -263,54 +908,116 @@ export class AnalysisService {
       throw new Error("No chunks selected for analysis");
     }
 
-    console.log(`Processing ${selectedChunks.length} chunks sequentially with 10-second delays...`);
-    
-    let combinedResults: any[] = [];
-    let combinedResponses: string[] = [];
+    const policy = this.pacer.policyFor(request.llmProvider);
+    console.log(`Processing ${selectedChunks.length} chunks, up to ${policy.maxConcurrency} at a time...`);
     
-    // Process each chunk sequentially with delays
-    for (let i = 0; i < selectedChunks.length; i++) {
+    const outcomes = await this.pacer.run(policy, selectedChunks.length, async (i) => {
       const chunk = selectedChunks[i];
-      console.log(`Processing chunk ${i + 1}/${selectedChunks.length}: Chunk ${i + 1}`);
+      const chunkTitle = chunk.title || `Chunk ${i + 1}`;
+      console.log(`Processing chunk ${i + 1}/${selectedChunks.length}: ${chunkTitle}`);
       
       try {
-        const chunkResult = await this.performStandardAnalysis(request, chunk.text);
-        
-        combinedResults.push({
-          chunkId: chunk.id,
-          chunkTitle: `Chunk ${i + 1}`,
-          ...chunkResult
-        });
-        
-        combinedResponses.push(`CHUNK ${i + 1}:\n${chunkResult.rawResponse}`);
-        
-        // Wait 10 seconds before processing next chunk (except for the last one)
-        if (i < selectedChunks.length - 1) {
-          console.log(`Waiting 10 seconds before processing next chunk...`);
-          await this.delay(10000);
-        }
-        
+        const chunkResult = await this.sampleAnalysis(request, runRequest => this.performStandardAnalysis(runRequest, chunk.text), chunkTitle);
+        return { chunkId: chunk.id, chunkTitle, ...chunkResult };
       } catch (error) {
         console.error(`Error processing chunk ${i + 1}:`, error);
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        combinedResults.push({
-          chunkId: chunk.id,
-          chunkTitle: `Chunk ${i + 1}`,
-          error: errorMessage
-        });
+        return { chunkId: chunk.id, chunkTitle, error: errorMessage };
       }
-    }
+    }, () => {});
+    
+    const { combinedResults, combinedResponses } = this.collectChunkOutcomes(outcomes);
     
     // Synthesize results from all chunks
-    const synthesizedResult = this.synthesizeChunkResults(combinedResults, request);
-    synthesizedResult.rawResponse = combinedResponses.join('\n\n---\n\n');
+    const systemPrompt = this.protocolFor(request).systemPrompt;
+    const synthesizedResult = await this.synthesizeChunks(combinedResults, combinedResponses, request, async (prompt) => {
+      const response = await this.llmService.callLLMWithFailover(
+        this.getProviderChain(request), prompt, systemPrompt, {
+          generation: this.getGenerationParams(request),
+          usageTags: { mode: request.mode },
+          responseSchema: ANALYSIS_RESPONSE_SCHEMA
+        }
+      );
+      return { response, parsed: await this.parseWithRepair(request, response) };
+    });
     
     this.results.set(synthesizedResult.id, synthesizedResult);
     return synthesizedResult;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Chunk outcomes in chunk order, skipping chunks that never started, with the raw responses of the successful ones
+  private collectChunkOutcomes(outcomes: (any | undefined)[]): { combinedResults: any[]; combinedResponses: string[] } {
+    const combinedResults: any[] = [];
+    const combinedResponses: string[] = [];
+    outcomes.forEach((outcome, i) => {
+      if (!outcome) return;
+      combinedResults.push(outcome);
+      if (!outcome.error) {
+        combinedResponses.push(`CHUNK ${i + 1}:\n${outcome.rawResponse}`);
+      }
+    });
+    return { combinedResults, combinedResponses };
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal);
+  }
+
+  // Stored like any other result so the partial output stays downloadable
+  private recordCancelledResult(request: AnalysisRequest, partialResponse: string): AnalysisResult {
+    const result: AnalysisResult = {
+      id: randomUUID(),
+      mode: request.mode,
+      llmProvider: request.llmProvider,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
+      overallScore: 0,
+      summary: "Analysis cancelled before completion",
+      category: "Cancelled",
+      questions: [],
+      finalAssessment: "The analysis was cancelled before the model finished responding.",
+      timestamp: new Date().toISOString(),
+      rawResponse: partialResponse,
+      cancelled: true
+    };
+
+    this.results.set(result.id, result);
+    return result;
+  }
+
+  // Stored like any other result; it lists every chunk's error and, being checkpointed, can be retried
+  private recordFailedChunksResult(request: AnalysisRequest, chunkResults: any[]): AnalysisResult {
+    const result: AnalysisResult = {
+      id: randomUUID(),
+      mode: request.mode,
+      llmProvider: request.llmProvider,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
+      overallScore: 0,
+      summary: chunkResults.length === 1 ? "The chunk failed to process" : `All ${chunkResults.length} chunks failed to process`,
+      category: "Failed",
+      questions: [],
+      finalAssessment: "No chunk could be analyzed. Retry the failed chunks to complete the analysis.",
+      timestamp: new Date().toISOString(),
+      rawResponse: "",
+      chunkOutcomes: this.toChunkOutcomes(chunkResults),
+      checkpointed: true
+    };
+
+    this.results.set(result.id, result);
+    return result;
+  }
+
+  private toChunkOutcomes(chunkResults: any[]): AnalysisResult["chunkOutcomes"] {
+    return chunkResults.map(result => ({
+      chunkId: result.chunkId,
+      chunkTitle: result.chunkTitle,
+      provider: result.providerUsed,
+      model: result.generation?.model,
+      error: result.error,
+      fromCache: result.fromCache,
+      outputPath: result.outputPath,
+      repairAttempts: result.repairAttempts,
+      sampling: result.sampling
+    }));
   }
 
   private synthesizeChunkResults(chunkResults: any[], request: AnalysisRequest): AnalysisResult {
@@ -356,155 +1063,193 @@ export class AnalysisService {
       id: randomUUID(),
       mode: request.mode,
       llmProvider: request.llmProvider,
+      protocol: ProtocolLibrary.toRef(this.protocolFor(request)),
       overallScore: averageScore,
       summary: `Multi-chunk analysis (${validResults.length} chunks): ${summaries}`,
       category: categories,
       questions: synthesizedQuestions,
       finalAssessment: `Combined assessment from ${validResults.length} chunks: ${finalAssessments}`,
       timestamp: new Date().toISOString(),
-      rawResponse: '' // Will be set by caller
+      rawResponse: '', // Will be set by caller
+      generation: validResults[0].generation,
+      // Only a run answered entirely from cache counts as cached
+      ...(chunkResults.every(result => result.fromCache) ? {
+        fromCache: true,
+        cachedAt: validResults.map(result => result.cachedAt).sort()[0]
+      } : {}),
+      chunkOutcomes: this.toChunkOutcomes(chunkResults)
     };
   }
 
-  private getQuestionsForMode(mode: string): string[] {
-    const baseQuestions = {
-      cognitive: [
-        "IS IT INSIGHTFUL?",
-        "DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)?",
-        "IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY?",
-        "IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING?",
-        "ARE THE POINTS CLICHES? OR ARE THEY \"FRESH\"?",
-        "DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE?",
-        "IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL?",
-        "DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)?",
-        "IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)?",
-        "IS IT REAL OR IS IT PHONY?",
-        "DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC?",
-        "IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?",
-        "IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN?",
-        "ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?",
-        "IS THE WRITING EVASIVE OR DIRECT?",
-        "ARE THE STATEMENTS AMBIGUOUS?",
-        "DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT?",
-        "DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?",
-        "ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID?",
-        "ARE THERE 'FREE VARIABLES' IN THE TEXT? I.E. ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?",
-        "DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY 'ADDED' TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?",
-        "DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?",
-        "IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS IT ONLY 'PRESUMPTION-SMART'? I.E. IS IT 'SMART' ONLY IN THE SENSE THAT THERE EXISTS A PRESUMPTION THAT A DUMB PERSON WOULD NOT REFERENCE SUCH DOCTRINES?",
-        "IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATE THAT INSIGHT IN A SINGLE SENTENCE? OR IF IT CONTAINS MULTIPLE INSIGHTS, CAN YOU STATE THOSE INSIGHTS, ONE PER SENTENCE?"
-      ],
-      psychological: [
-        "Does the text reveal a stable, coherent self-concept, or is the self fragmented/contradictory?",
-        "Is there evidence of ego strength (resilience, capacity to tolerate conflict/ambiguity), or does the psyche rely on brittle defenses?",
-        "Are defenses primarily mature (sublimation, humor, anticipation), neurotic (intellectualization, repression), or primitive (splitting, denial, projection)?",
-        "Does the writing show integration of affect and thought, or are emotions split off / overly intellectualized?",
-        "Is the author's stance defensive/avoidant or direct/engaged?",
-        "Does the psyche appear narcissistically organized (grandiosity, fragile self-esteem, hunger for validation), or not?",
-        "Are desires/drives expressed openly, displaced, or repressed?",
-        "Does the voice suggest internal conflict (superego vs. id, competing identifications), or monolithic certainty?",
-        "Is there evidence of object constancy (capacity to sustain nuanced view of others) or splitting (others seen as all-good/all-bad)?",
-        "Is aggression integrated (channeled productively) or dissociated/projected?",
-        "Is the author capable of irony/self-reflection, or trapped in compulsive earnestness / defensiveness?",
-        "Does the text suggest psychological growth potential (openness, curiosity, capacity to metabolize experience) or rigidity?",
-        "Is the discourse paranoid / persecutory (others as threats, conspiracies) or reality-based?",
-        "Does the tone reflect authentic engagement with reality, or phony simulation of depth?",
-        "Is the psyche resilient under stress, or fragile / evasive?",
-        "Is there evidence of compulsion or repetition (obsessional returns to the same themes), or flexible progression?",
-        "Does the author show capacity for intimacy / genuine connection, or only instrumental/defended relations?",
-        "Is shame/guilt worked through constructively or disavowed/projected?"
-      ],
-      psychopathological: [
-        "Does the text reveal distorted reality testing (delusion, paranoia, magical thinking), or intact contact with reality?",
-        "Is there evidence of persecutory ideation (seeing threats/conspiracies) or is perception proportionate?",
-        "Does the subject show rigid obsessional patterns (compulsion, repetitive fixation) vs. flexible thought?",
-        "Are there signs of narcissistic pathology (grandiosity, exploitation, lack of empathy), or balanced self-other relation?",
-        "Is aggression expressed as sadism, cruelty, destructive glee, or is it integrated/controlled?",
-        "Is affect regulation stable or does it suggest lability, rage, despair, manic flight?",
-        "Does the person exhibit emptiness, hollowness, anhedonia, or a capacity for meaning/connection?",
-        "Is there evidence of identity diffusion (incoherence, role-shifting, lack of stable self)?",
-        "Are interpersonal patterns exploitative/manipulative or reciprocal/genuine?",
-        "Does the psyche lean toward psychotic organization (loss of boundaries, hallucination-like claims), borderline organization (splitting, fear of abandonment), or neurotic organization (anxiety, repression)?",
-        "Are defenses predominantly primitive (denial, projection, splitting) or higher-level?",
-        "Is there evidence of pathological lying, phoniness, simulation, or authentic communication?",
-        "Does the discourse exhibit compulsive hostility toward norms/authorities (paranoid defiance) or measured critique?",
-        "Is sexuality integrated or perverse/displaced (voyeurism, exhibitionism, compulsive control)?",
-        "Is the overall presentation coherent and reality-based or chaotic, persecutory, hollow, performative?"
-      ]
-    };
+  // Integrates the chunk assessments with the model, falling back to averaging when there is only
+  // one chunk, the run was cancelled or the synthesis fails; the chunk assessments stay on the result
+  private async synthesizeChunks(
+    chunkResults: any[],
+    chunkResponses: string[],
+    request: AnalysisRequest,
+    callSynthesis: SynthesisCall,
+    onUpdate?: (update: any) => void,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> {
+    const result = this.synthesizeChunkResults(chunkResults, request);
+    result.rawResponse = chunkResponses.join('\n\n---\n\n');
+    
+    const leaves: SynthesisNode[] = chunkResults.filter(chunk => !chunk.error).map(chunk => ({
+      title: chunk.chunkTitle,
+      sources: [chunk.chunkTitle],
+      resultId: chunk.id,
+      overallScore: chunk.overallScore,
+      summary: chunk.summary,
+      category: chunk.category,
+      questions: chunk.questions,
+      finalAssessment: chunk.finalAssessment
+    }));
+    
+    if (leaves.length < 2 || signal?.aborted) {
+      return { ...result, synthesis: { method: "average", levels: [leaves] } };
+    }
+    
+    try {
+      const levels: SynthesisNode[][] = [leaves];
+      const rawResponses: string[] = [];
+      let repairAttempts = 0;
+      let outputPath: OutputPath | undefined;
+      
+      while (levels[levels.length - 1].length > 1) {
+        const previous = levels[levels.length - 1];
+        const groups: SynthesisNode[][] = [];
+        let offset = 0;
+        for (const count of this.groupForSynthesis(previous.map(node => this.describeSynthesisNode(node).length))) {
+          groups.push(previous.slice(offset, offset + count));
+          offset += count;
+        }
+        const level = levels.length;
+        const nodes: SynthesisNode[] = [];
+        
+        for (let i = 0; i < groups.length; i++) {
+          const group = groups[i];
+          const sources = group.flatMap(node => node.sources);
+          const title = groups.length === 1 ? "Whole text" : `${sources[0]} – ${sources[sources.length - 1]}`;
+          onUpdate?.({ type: 'status', message: `Synthesis level ${level}: integrating ${group.length} assessments (${i + 1}/${groups.length})...`, phase: 'synthesis' });
+          
+          const { response, parsed } = await callSynthesis(this.buildSynthesisPrompt(group), `Synthesis ${level}.${i + 1}`);
+          rawResponses.push(`SYNTHESIS ${level}.${i + 1} (${title}):\n${response.text}`);
+          repairAttempts += parsed.repairAttempts ?? 0;
+          outputPath = parsed.outputPath;
+          nodes.push({
+            title,
+            sources,
+            overallScore: parsed.overallScore,
+            summary: parsed.summary,
+            category: parsed.category,
+            questions: parsed.questions,
+            finalAssessment: parsed.finalAssessment
+          });
+        }
+        levels.push(nodes);
+      }
+      
+      const [whole] = levels[levels.length - 1];
+      return {
+        ...result,
+        overallScore: whole.overallScore,
+        summary: whole.summary,
+        category: whole.category,
+        questions: whole.questions,
+        finalAssessment: whole.finalAssessment,
+        rawResponse: [result.rawResponse, ...rawResponses].join('\n\n---\n\n'),
+        outputPath,
+        repairAttempts: repairAttempts || undefined,
+        synthesis: { method: "model", levels }
+      };
+    } catch (error) {
+      console.error("Chunk synthesis failed, averaging chunk scores instead:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      onUpdate?.({ type: 'status', message: `Synthesis failed (${errorMessage}) - averaging chunk scores instead`, phase: 'synthesis' });
+      return { ...result, synthesis: { method: "average", levels: [leaves], error: errorMessage } };
+    }
+  }
+
+  // Sizes of consecutive groups for one synthesis level, packed within the prompt budget;
+  // a group always takes at least two assessments so every level shrinks
+  private groupForSynthesis(promptSizes: number[]): number[] {
+    const groups: number[] = [];
+    let count = 0;
+    let size = 0;
+    
+    for (const nodeSize of promptSizes) {
+      if (count >= SYNTHESIS_MAX_GROUP || (count >= 2 && size + nodeSize > SYNTHESIS_MAX_PROMPT_CHARS)) {
+        groups.push(count);
+        count = 0;
+        size = 0;
+      }
+      count++;
+      size += nodeSize;
+    }
+    
+    // A lone trailing assessment joins the group before it
+    if (count === 1 && groups.length > 0) {
+      groups[groups.length - 1]++;
+    } else if (count > 0) {
+      groups.push(count);
+    }
+    return groups;
+  }
+
+  // Number of synthesis calls per level for chunks whose assessments are about nodeChars long
+  estimateSynthesisCalls(chunkCount: number, nodeChars: number): { level: number; inputs: number }[] {
+    const calls: { level: number; inputs: number }[] = [];
+    let count = chunkCount;
+    for (let level = 1; count > 1; level++) {
+      const groups = this.groupForSynthesis(Array.from({ length: count }, () => nodeChars));
+      groups.forEach(inputs => calls.push({ level, inputs }));
+      count = groups.length;
+    }
+    return calls;
+  }
+
+  private describeSynthesisNode(node: SynthesisNode): string {
+    let description = `${node.title} (overall ${node.overallScore}/100)\n`;
+    description += `Summary: ${node.summary}\n`;
+    node.questions.forEach((q, index) => {
+      description += `${index + 1}. ${q.question}\nAnswer: ${q.answer}\nScore: ${q.score}/100\n`;
+    });
+    description += `Final assessment: ${node.finalAssessment}\n`;
+    return description;
+  }
 
-    // Handle meta-analysis mode specially
-    if (mode === 'meta-analysis') {
-      return [
-        "Is the analysis accurate in its assessment of the original text?",
-        "Does the analysis properly apply the evaluation criteria?",
-        "Are the scores given realistic and well-calibrated?",
-        "Does the analysis demonstrate deep understanding of the text?",
-        "Is the analysis thorough and comprehensive?",
-        "Are there significant blind spots or biases in the analysis?",
-        "Does the analysis provide actionable insights?",
-        "Is the final assessment well-supported by the detailed evaluation?",
-        "How would you rate the overall quality of this analysis?"
-      ];
-    }
-
-    const modeType = mode.split('-')[0] as keyof typeof baseQuestions;
-    const questions = baseQuestions[modeType] || baseQuestions.cognitive;
-    
-    // Return all questions for each mode type
-    return questions;
-  }
-
-  private getSystemPrompt(mode: string): string {
-    // Handle meta-analysis mode specially
-    if (mode === 'meta-analysis') {
-      return `You are conducting a meta-analysis of an existing analysis. Your job is to evaluate the quality of the analysis itself, not the original text. Look at both the original text and the analysis, then assess how good the analysis is. Be thorough, critical, and constructive. Point out both strengths and weaknesses. A score of N/100 means that (100-N)/100 of analyses would be better than this one.`;
-    }
-
-    const modeType = mode.split('-')[0];
-    
-    let basePrompt = `You are conducting a ${modeType} assessment. `;
-    
-    // Core instructions that apply to all modes
-    basePrompt += `A score of N/100 (e.g. 73/100) means that (100-N)/100 (e.g. 27/100) outperform the author with respect to the parameter defined by the question. `;
-    basePrompt += `You are not grading; you are answering these questions. `;
-    basePrompt += `You do not use a risk-averse standard; you do not attempt to be diplomatic; you do not attempt to comply with risk-averse, medium-range IQ, academic norms. `;
-    basePrompt += `You do not make assumptions about the level of the paper; it could be a work of the highest excellence and genius, or it could be the work of a moron. `;
-    basePrompt += `If a work is a work of genius, you say that, and you say why; you do not shy away from giving what might conventionally be regarded as excessively "superlative" scores; you give it the score it deserves, not the score that a midwit committee would say it deserves. `;
-    basePrompt += `You think very very very hard about your answers; you do not default to cookbook, midwit evaluation protocols. `;
-    basePrompt += `Do not give credit merely for use of jargon or for referencing authorities. Focus on substance. Only give points for scholarly references/jargon if they unambiguously increase substance. `;
-    
-    // Mode-specific additions
-    if (modeType === 'cognitive') {
-      basePrompt += `This is not a grading app. You assess the intelligence of what you are given. If you are given a brilliant fragment, you give it a high score. `;
-      basePrompt += `You are not grading essays. You are not looking for completeness (unless the text you are given is clearly such that evaluating intelligence coincides with applying a grading-based metric). `;
-      basePrompt += `Do not overvalue turns of phrase. An author speaking confidently is not necessarily "shutting down modes of inquiry". In fact, it is likely to be the opposite; by putting a clear stake in the ground, he is probably opening them. `;
-      basePrompt += `Casual speech does not mean disorganized thoughts. Don't judge a book by its cover. `;
-      basePrompt += `Do not penalize boldness. Do not take points away for insights that, if correct, stand on their own. `;
-      basePrompt += `Get rid of the idea that "argumentation" is what makes something smart; it isn't. What makes something smart is that it is smart (insightful). Period. `;
-    } else if (modeType === 'psychological') {
-      basePrompt += `You are not diagnosing. You are describing the degree of psychological functioning revealed. `;
-      basePrompt += `Do not default to diagnostic checklists; describe configuration of psyche. `;
-      basePrompt += `Do not conflate verbal confidence with psychological strength. `;
-      basePrompt += `Do not penalize honesty, boldness, or extreme statements if they indicate integration rather than breakdown. `;
-    } else if (modeType === 'psychopathological') {
-      basePrompt += `You are not diagnosing. You are describing the degree of psychopathology revealed. `;
-      basePrompt += `Do not give credit for rhetorical surface (confidence, erudition). Focus on reality testing, defenses, affect, and interpersonal stance. `;
-      basePrompt += `Do not penalize intense but integrated thought — pathology is disorganization, not extremity. `;
-      basePrompt += `Pathology is not a matter of being "different." Pathology = distortion + dysfunction, not extremity of thought. `;
-    }
-    
-    basePrompt += `Evaluate relative to the general population, not only "advanced" or "pathological" groups. `;
-    basePrompt += `You must always start by summarizing the text and also categorizing it. `;
-    basePrompt += `You should not change the grading based on the category of the text: if a text is categorized as 'advanced scholarship', you should still evaluate it with respect to the general population, not with respect only to 'advanced scholarly works.' `;
-    
-    return basePrompt;
-  }
-
-  private buildAnalysisPrompt(text: string, questions: string[], mode: string, backgroundInfo?: string, critique?: string, originalAnalysis?: any): string {
-    // Get user's exact instructions based on mode
-    const userInstructions = this.getUserExactInstructions(mode, originalAnalysis);
+  private buildSynthesisPrompt(nodes: SynthesisNode[]): string {
+    const questions = Array.from(new Set(nodes.flatMap(node => node.questions.map(q => q.question))));
     
+    let prompt = `You assessed a long text in parts. Below are your assessments of ${nodes.length} consecutive parts of it.\n\n`;
+    nodes.forEach((node, index) => {
+      prompt += `PART ${index + 1}: ${this.describeSynthesisNode(node)}\n`;
+    });
+    prompt += `Integrate these into one assessment of all ${nodes.length} parts taken together. `;
+    prompt += `For each of the following questions write a single answer that draws on every part (not a list of the parts' answers) `;
+    prompt += `and give one score for the text as a whole, weighing each part by how much it reveals:\n\n`;
+    questions.forEach((question, index) => {
+      prompt += `${index + 1}. ${question}\n`;
+    });
+    prompt += `\nThen write a summary and a final assessment of the whole.\n\n`;
+    prompt += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
+    return prompt;
+  }
+
+  // Fixes the protocol version at the start of a run, so an edit made meanwhile (or before a retry of
+  // failed chunks) cannot change it halfway
+  private pinProtocol(request: AnalysisRequest): AnalysisRequest {
+    const protocol = this.protocolFor(request);
+    return { ...request, protocolId: protocol.id, protocolVersion: protocol.version };
+  }
+
+  // The requested protocol version, or the latest version of the mode's default protocol
+  private protocolFor(request: AnalysisRequest): ResolvedProtocol {
+    return this.protocols.resolve(request.mode, request.protocolId, request.protocolVersion);
+  }
+
+  private buildAnalysisPrompt(request: AnalysisRequest, text: string, protocol: ResolvedProtocol): string {
+    const { backgroundInfo, critique } = request;
     let prompt = `TEXT TO ANALYZE:\n${text}\n\n`;
     
     if (backgroundInfo && backgroundInfo.trim()) {
@@ -515,11 +1260,11 @@ export class AnalysisService {
       prompt += `CRITIQUE OF PREVIOUS ANALYSIS:\nThe user provided the following critique of a previous analysis of this same text: "${critique.trim()}"\n\nPlease take this critique into account and provide an improved analysis that addresses the concerns raised. Focus specifically on the aspects mentioned in the critique while maintaining your analytical rigor.\n\n`;
     }
     
-    // Send user's exact instructions verbatim
-    prompt += userInstructions;
+    // The protocol's own wording is sent verbatim
+    prompt += this.renderProtocol(protocol, request.originalAnalysis);
     
     // For meta-analysis, ensure the text is mentioned again at the end
-    if (mode === 'meta-analysis') {
+    if (protocol.modeType === 'meta-analysis') {
       prompt += `\n\nREMEMBER: Analyze both the ORIGINAL TEXT provided above and the ANALYSIS of that text. Your job is to evaluate how well the analysis performed.\n\n`;
       prompt += `ANSWER THESE QUESTIONS IN CONNECTION WITH THE TEXT AND ITS ANALYSIS.\n\n`;
     } else {
@@ -529,12 +1274,12 @@ export class AnalysisService {
     return prompt;
   }
 
-  private getUserExactInstructions(mode: string, originalAnalysis?: any): string {
-    const modeType = mode.split('-')[0];
+  // Preamble, questions, instructions, scoring notes, addenda and exemplars, in that order; a meta-analysis
+  // first lists the analysis under evaluation
+  private renderProtocol(protocol: ResolvedProtocol, originalAnalysis?: AnalysisRequest["originalAnalysis"]): string {
     let instructions = "";
     
-    // Handle meta-analysis mode specially
-    if (mode === 'meta-analysis') {
+    if (protocol.modeType === 'meta-analysis') {
       if (originalAnalysis) {
         instructions += `ORIGINAL ANALYSIS TO EVALUATE:\n\n`;
         instructions += `Analysis Mode: ${originalAnalysis.mode}\n`;
@@ -544,7 +1289,7 @@ export class AnalysisService {
         instructions += `Category: ${originalAnalysis.category}\n\n`;
         
         instructions += `Detailed Questions and Answers:\n`;
-        originalAnalysis.questions?.forEach((q: any, index: number) => {
+        originalAnalysis.questions.forEach((q, index) => {
           instructions += `${index + 1}. ${q.question}\n`;
           instructions += `Answer: ${q.answer}\n`;
           instructions += `Score: ${q.score}/100\n\n`;
@@ -552,207 +1297,55 @@ export class AnalysisService {
         
         instructions += `Final Assessment: ${originalAnalysis.finalAssessment}\n\n`;
       }
-      
       instructions += `META-ANALYSIS EVALUATION QUESTIONS:\n\n`;
-      instructions += `Is the analysis accurate in its assessment of the original text?\n\n`;
-      instructions += `Does the analysis properly apply the evaluation criteria?\n\n`;
-      instructions += `Are the scores given realistic and well-calibrated?\n\n`;
-      instructions += `Does the analysis demonstrate deep understanding of the text?\n\n`;
-      instructions += `Is the analysis thorough and comprehensive?\n\n`;
-      instructions += `Are there significant blind spots or biases in the analysis?\n\n`;
-      instructions += `Does the analysis provide actionable insights?\n\n`;
-      instructions += `Is the final assessment well-supported by the detailed evaluation?\n\n`;
-      instructions += `How would you rate the overall quality of this analysis?\n\n`;
-      
-      instructions += `EVALUATE THE ANALYSIS: Look at both the original text and the analysis. Assess how well the analysis performed its task. Be thorough, critical, and constructive. Point out both strengths and weaknesses.\n\n`;
-      instructions += `A score of N/100 means that (100-N)/100 of analyses would be better than this one.\n\n`;
-      instructions += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
-      
-      return instructions;
-    }
-    
-    instructions += `YOU SEND THE LLM THE FOLLOWING QUESTIONS:\n\n`;
-    
-    if (modeType === 'psychological') {
-      // Psychological questions from uploaded protocol
-      instructions += `Does the text reveal a stable, coherent self-concept, or is the self fragmented/contradictory?\n\n`;
-      instructions += `Is there evidence of ego strength (resilience, capacity to tolerate conflict/ambiguity), or does the psyche rely on brittle defenses?\n\n`;
-      instructions += `Are defenses primarily mature (sublimation, humor, anticipation), neurotic (intellectualization, repression), or primitive (splitting, denial, projection)?\n\n`;
-      instructions += `Does the writing show integration of affect and thought, or are emotions split off / overly intellectualized?\n\n`;
-      instructions += `Is the author's stance defensive/avoidant or direct/engaged?\n\n`;
-      instructions += `Does the psyche appear narcissistically organized (grandiosity, fragile self-esteem, hunger for validation), or not?\n\n`;
-      instructions += `Are desires/drives expressed openly, displaced, or repressed?\n\n`;
-      instructions += `Does the voice suggest internal conflict (superego vs. id, competing identifications), or monolithic certainty?\n\n`;
-      instructions += `Is there evidence of object constancy (capacity to sustain nuanced view of others) or splitting (others seen as all-good/all-bad)?\n\n`;
-      instructions += `Is aggression integrated (channeled productively) or dissociated/projected?\n\n`;
-      instructions += `Is the author capable of irony/self-reflection, or trapped in compulsive earnestness / defensiveness?\n\n`;
-      instructions += `Does the text suggest psychological growth potential (openness, curiosity, capacity to metabolize experience) or rigidity?\n\n`;
-      instructions += `Is the discourse paranoid / persecutory (others as threats, conspiracies) or reality-based?\n\n`;
-      instructions += `Does the tone reflect authentic engagement with reality, or phony simulation of depth?\n\n`;
-      instructions += `Is the psyche resilient under stress, or fragile / evasive?\n\n`;
-      instructions += `Is there evidence of compulsion or repetition (obsessional returns to the same themes), or flexible progression?\n\n`;
-      instructions += `Does the author show capacity for intimacy / genuine connection, or only instrumental/defended relations?\n\n`;
-      instructions += `Is shame/guilt worked through constructively or disavowed/projected?\n\n`;
-      
-      instructions += `ANSWER THESE QUESTIONS IN CONNECTION WITH THIS TEXT.\n\n`;
-      instructions += `Also give a score out of 100.\n\n`;
-      instructions += `A score of N/100 means (100–N)/100 outperform the subject with respect to the psychological capacity defined by the question.\n\n`;
-      instructions += `You are not grading. You are answering questions.\n\n`;
-      instructions += `Do not default to diagnostic checklists; describe configuration of psyche.\n\n`;
-      instructions += `Do not conflate verbal confidence with psychological strength.\n\n`;
-      instructions += `Summarize the text and categorize the psychological presentation (e.g., narcissistic, depressive, obsessional, resilient, fragmented).\n\n`;
-      instructions += `Evaluate relative to the general population, not only "advanced" or "pathological" groups.\n\n`;
-      instructions += `Do not penalize honesty, boldness, or extreme statements if they indicate integration rather than breakdown.\n\n`;
-      
-      instructions += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
-      
-    } else if (mode.includes('psychopathological')) {
-      // Psychopathological questions
-      instructions += `Does the text reveal distorted reality testing (delusion, paranoia, magical thinking), or intact contact with reality?\n\n`;
-      instructions += `Is there evidence of persecutory ideation (seeing threats/conspiracies) or is perception proportionate?\n\n`;
-      instructions += `Does the subject show rigid obsessional patterns (compulsion, repetitive fixation) vs. flexible thought?\n\n`;
-      instructions += `Are there signs of narcissistic pathology (grandiosity, exploitation, lack of empathy), or balanced self-other relation?\n\n`;
-      instructions += `Is aggression expressed as sadism, cruelty, destructive glee, or is it integrated/controlled?\n\n`;
-      instructions += `Is affect regulation stable or does it suggest lability, rage, despair, manic flight?\n\n`;
-      instructions += `Does the person exhibit emptiness, hollowness, anhedonia, or a capacity for meaning/connection?\n\n`;
-      instructions += `Is there evidence of identity diffusion (incoherence, role-shifting, lack of stable self)?\n\n`;
-      instructions += `Are interpersonal patterns exploitative/manipulative or reciprocal/genuine?\n\n`;
-      instructions += `Does the psyche lean toward psychotic organization (loss of boundaries, hallucination-like claims), borderline organization (splitting, fear of abandonment), or neurotic organization (anxiety, repression)?\n\n`;
-      instructions += `Are defenses predominantly primitive (denial, projection, splitting) or higher-level?\n\n`;
-      instructions += `Is there evidence of pathological lying, phoniness, simulation, or authentic communication?\n\n`;
-      instructions += `Does the discourse exhibit compulsive hostility toward norms/authorities (paranoid defiance) or measured critique?\n\n`;
-      instructions += `Is sexuality integrated or perverse/displaced (voyeurism, exhibitionism, compulsive control)?\n\n`;
-      instructions += `Is the overall presentation coherent and reality-based or chaotic, persecutory, hollow, performative?\n\n`;
-      
-      instructions += `ANSWER THESE QUESTIONS IN CONNECTION WITH THIS TEXT.\n\n`;
-      instructions += `Also give a score out of 100.\n\n`;
-      instructions += `A score of N/100 means (100–N)/100 outperform the subject with respect to the parameter.\n\n`;
-      instructions += `You are not diagnosing. You are describing the degree of psychopathology revealed.\n\n`;
-      instructions += `You are not grading. You are answering questions.\n\n`;
-      instructions += `Summarize the text and categorize the presentation (e.g., neurotic, borderline, psychotic, narcissistic, obsessional).\n\n`;
-      instructions += `Do not give credit for rhetorical surface (confidence, erudition). Focus on reality testing, defenses, affect, and interpersonal stance.\n\n`;
-      instructions += `Evaluate relative to the general population, not just clinical populations.\n\n`;
-      instructions += `Do not penalize intense but integrated thought — pathology is disorganization, not extremity.\n\n`;
-      
-      instructions += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
-      
     } else {
-      // EXACT COGNITIVE INTELLIGENCE PROTOCOL - USER'S COMPLETE SPECIFICATIONS
       instructions += `YOU SEND THE LLM THE FOLLOWING QUESTIONS:\n\n`;
-      
-      instructions += `IS IT INSIGHTFUL?\n`;
-      instructions += `DOES IT DEVELOP POINTS? (OR, IF IT IS A SHORT EXCERPT, IS THERE EVIDENCE THAT IT WOULD DEVELOP POINTS IF EXTENDED)?\n`;
-      instructions += `IS THE ORGANIZATION MERELY SEQUENTIAL (JUST ONE POINT AFTER ANOTHER, LITTLE OR NO LOGICAL SCAFFOLDING)? OR ARE THE IDEAS ARRANGED, NOT JUST SEQUENTIALLY BUT HIERARCHICALLY?\n`;
-      instructions += `IF THE POINTS IT MAKES ARE NOT INSIGHTFUL, DOES IT OPERATE SKILLFULLY WITH CANONS OF LOGIC/REASONING.\n`;
-      instructions += `ARE THE POINTS CLICHES? OR ARE THEY "FRESH"?\n`;
-      instructions += `DOES IT USE TECHNICAL JARGON TO OBFUSCATE OR TO RENDER MORE PRECISE?\n`;
-      instructions += `IS IT ORGANIC? DO POINTS DEVELOP IN AN ORGANIC, NATURAL WAY? DO THEY 'UNFOLD'? OR ARE THEY FORCED AND ARTIFICIAL?\n`;
-      instructions += `DOES IT OPEN UP NEW DOMAINS? OR, ON THE CONTRARY, DOES IT SHUT OFF INQUIRY (BY CONDITIONALIZING FURTHER DISCUSSION OF THE MATTERS ON ACCEPTANCE OF ITS INTERNAL AND POSSIBLY VERY FAULTY LOGIC)?\n`;
-      instructions += `IS IT ACTUALLY INTELLIGENT OR JUST THE WORK OF SOMEBODY WHO, JUDGING BY THE SUBJECT-MATTER, IS PRESUMED TO BE INTELLIGENT (BUT MAY NOT BE)?\n`;
-      instructions += `IS IT REAL OR IS IT PHONY?\n`;
-      instructions += `DO THE SENTENCES EXHIBIT COMPLEX AND COHERENT INTERNAL LOGIC?\n`;
-      instructions += `IS THE PASSAGE GOVERNED BY A STRONG CONCEPT? OR IS THE ONLY ORGANIZATION DRIVEN PURELY BY EXPOSITORY (AS OPPOSED TO EPISTEMIC) NORMS?\n`;
-      instructions += `IS THERE SYSTEM-LEVEL CONTROL OVER IDEAS? IN OTHER WORDS, DOES THE AUTHOR SEEM TO RECALL WHAT HE SAID EARLIER AND TO BE IN A POSITION TO INTEGRATE IT INTO POINTS HE HAS MADE SINCE THEN?\n`;
-      instructions += `ARE THE POINTS 'REAL'? ARE THEY FRESH? OR IS SOME INSTITUTION OR SOME ACCEPTED VEIN OF PROPAGANDA OR ORTHODOXY JUST USING THE AUTHOR AS A MOUTH PIECE?\n`;
-      instructions += `IS THE WRITING EVASIVE OR DIRECT?\n`;
-      instructions += `ARE THE STATEMENTS AMBIGUOUS?\n`;
-      instructions += `DOES THE PROGRESSION OF THE TEXT DEVELOP ACCORDING TO WHO SAID WHAT OR ACCORDING TO WHAT ENTAILS OR CONFIRMS WHAT?\n`;
-      instructions += `DOES THE AUTHOR USE OTHER AUTHORS TO DEVELOP HIS IDEAS OR TO CLOAK HIS OWN LACK OF IDEAS?\n\n`;
-      
-      // ADDITIONAL QUESTIONS FOR INTELLIGENCE ASSESSMENT
-      instructions += `ARE THERE TERMS THAT ARE UNDEFINED BUT SHOULD BE DEFINED, IN THE SENSE THAT, WITHOUT DEFINITIONS, IT IS DIFFICULT OR IMPOSSIBLE TO KNOW WHAT IS BEING SAID OR THEREFORE TO EVALUATE WHAT IS BEING SAID? IF UNDEFINED TERMS HAVE CLEAR MEANINGS (AS THEY DO IN CHEMISTRY OR PHYSICS), THEN IT MAY WELL BE THAT THEY DO NOT HAVE TO BE DEFINED; BUT IF THEY HAVE NO CANONICAL MEANINGS (E.G. IF THEY ARE IN THE SAME CATEGORY AS "TRANSCENDENTAL EMPIRICISM", "THE MYTH OF THE MENTAL", "MINIMAL EMPIRICISM", OR "LINGUISTIC IDEALISM"), AND THEY ARE UNDEFINED, THEN THE 'STATEMENTS' IN QUESTION MUST NOT BE PRESUMED TO HAVE MEANINGS, ALBEIT HIDDEN ONES; RATHER, THEY MUST BE TREATED AS WHAT THEY ARE, PLACEHOLDER PSEUDO-STATEMENTS THAT HAVE NO MEANINGS AND THEREFORE HAVE NO INTELLIGENT MEANINGS.\n\n`;
-      
-      instructions += `ARE THERE "FREE VARIABLES" IN THE TEXT? IE ARE THERE QUALIFICATIONS OR POINTS THAT ARE MADE BUT DO NOT CONNECT TO ANYTHING LATER OR EARLIER?\n\n`;
-      
-      instructions += `DO NEW STATEMENTS DEVELOP OUT OF OLD ONES? OR ARE THEY MERELY "ADDED" TO PREVIOUS ONES, WITHOUT IN ANY SENSE BEING GENERATED BY THEM?\n\n`;
-      
-      instructions += `DO NEW STATEMENTS CLARIFY OR DO THEY LEAD TO MORE LACK OF CLARITY?\n\n`;
-      
-      instructions += `IS THE PASSAGE ACTUALLY (PALPABLY) SMART? OR IS ONLY "PRESUMPTION-SMART"? IE IS IT "SMART" ONLY IN THE SENSE THAT THERE EXISTS A PRESUMPTION THAT A DUMB PERSON WOULD NOT REFERENCE SUCH DOCTRINES? AND IS IT SMART ONLY IN THE SENSE THAT IF IT IS PRESUMED THAT UNDEFINED (AND, FOR ALL WE KNOW, MEANINGLESS TERMS) ARE MEANINGFUL, THEN (BUT ONLY THEN--AND POSSIBLY NOT EVEN THEN) IT MIGHT BE THAT WHAT THE AUTHOR IS SAYING IS PALPABLY SMART?\n\n`;
-      
-      instructions += `IF YOUR JUDGMENT IS THAT IT IS INSIGHTFUL, CAN YOU STATE THAT INSIGHT IN A SINGLE SENTENCE? OR IF IT CONTAINS MULTIPLE INSIGHTS, CAN YOU STATE THOSE INSIGHTS, ONE PER SENTENCE?\n\n`;
-      
-      instructions += `IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING IMPOSTOR SCAFFOLDING? IN OTHER WORDS, WOULD I BE REWARDING THAT HAD SOME OF THE VERBAL AND CONVENTIONAL TRAPPINGS OF 'HIGH LEVEL TEXT' BUT LACKED ANY DISCERNIBLE SUBSTANCE?\n\n`;
-      
-      instructions += `IF I WERE TO GIVE A HIGH SCORE TO THIS PASSAGE, WOULD I BE REWARDING CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?\n\n`;
-      
-      instructions += `IF I WERE TO GIVE A LOW SCORE TO THIS PASSAGE, WOULD I BE PENALIZING ACTUAL INTELLIGENCE OWING TO A LACK OF CONFORMITY TO ACADEMIC/BUREAUCRATIC NORMS?\n\n`;
-      
-      instructions += `YOU TELL THE LLM TO ANSWER THOSE QUESTIONS. YOU SAY: ANSWER THESE QUESTIONS IN CONNECTION WITH THIS TEXT. YOU DON'T SAY: DETERMINE INTELLIGENCE OF TEXT. YOU DO NOT SAY: DETERMINE INTELLIGENCE/COGENCY/ETC BY ANSWERING THESE QUESTIONS. YOU JUST SAY: ANSWER THESE QUESTIONS (AND ALSO GIVE A SCORE OUT OF 100). BUT THERE ARE SEVERAL QUALIFICATIONS.\n\n`;
-      
-      instructions += `AFTER YOU GIVE IT THE TEXT AND THE QUESTIONS, YOU SAY THE FOLLOWING: A SCORE OF N/100 (E.G. 73/100) MEANS THAT (100-N)/100 (E.G. 27/100) OUTPERFORM THE AUTHOR WITH RESPECT TO THE PARAMETER DEFINED BY THE QUESTION. YOU ALSO SAY: YOU ARE NOT GRADING; YOU ARE ANSWERING THESE QUESTIONS. YOU ALSO SAY: YOU DO NOT USE A RISK-AVERSE STANDARD; YOU DO NOT ATTEMPT TO BE DIPLOMATIC; YOU DO NOT ATTEMPT TO COMPLY WITH RISK-AVERSE, MEDIUM-RANGE IQ, ACADEMIC NORMS. YOU DO NOT MAKE ASSUMPTIONS ABOUT THE LEVEL OF THE PAPER; IT COULD BE A WORK OF THE HIGHEST EXCELLENCE AND GENIUS, OR IT COULD BE THE WORK OF A MORON.\n\n`;
-      
-      instructions += `IF A WORK IS A WORK OF GENIUS, YOU SAY THAT, AND YOU SAY WHY; YOU DO NOT SHY AWAY FROM GIVING WHAT MIGHT CONVENTIONALLY BE REGARDED AS EXCESSIVELY "SUPERLATIVE" SCORES; YOU GIVE IT THE SCORE IT DESERVES, NOT THE SCORE THAT A MIDWIT COMMITTEE WOULD SAY IT DESERVES.\n\n`;
-      
-      instructions += `YOU TELL THE LLM TO THINK VERY VERY VERY HARD ABOUT ITS ANSWERS; MAKE IT VERY CLEAR THAT IT IS NOT TO DEFAULT TO COOKBOOK, MIDWIT EVALUATION PROTOCOLS.\n\n`;
-      
-      instructions += `BEAR IN MIND: THE LLM GOES INTO A DEFAULT WHEREBY WHENEVER THE AUTHOR USES A LOT OF JARGON OR REFERENCES A LOT OF 'AUTHORITIES' IT DISREGARDS THE ACTUAL SUBSTANCE (OR LACK THEREOF) OF THE PAPER. YOU HAVE TO EXPLICITLY SAY: "DO NOT GIVE CREDIT MERELY FOR USE OF JARGON OR FOR REFERENCING AUTHORITIES. FOCUS ON SUBSTANCE. ONLY GIVE POINTS FOR SCHOLARLY REFERENCES/JARGON IF THEY UNAMBIGUOUSLY INCREASE SUBSTANCE."\n\n`;
-      
-      // METAPOINTS 1-5 ADDENDUM
-      instructions += `ADDENDUM TO INTELLIGENCE ASSESSMENT FUNCTIONS:\n`;
-      instructions += `YOU MUST SEND THIS ADDENDUM WHENEVER DOING EITHER THE COMPREHENSIVE OR THE NON-COMPREHENSIVE INTELLIGENCE ASSESSMENT:\n\n`;
-      
-      instructions += `METAPOINT 1: THIS NOT A GRADING APP. YOU GRADE THE INTELLIGENCE OF WHAT YOU ARE GIVEN. IF YOU ARE GIVEN BRILLIANT FRAGMENT, YOU GIVE IT A HIGH SCORE. YOU ARE NOT GRADING ESSAYS. YOU ARE NOT LOOKING FOR COMPLETENESS (UNLESS THE TEXT YOU ARE GIVEN IS CLEARLY SUCH THAT IT EVALUATING INTELLIGENCE COINCIDES WITH APPLYING A GRADING-BASED METRIC). YOU TELL THE LLM NOT TO 'GRADE'; THEIR JOB IS TO ANSWER THE QUESTIONS, PERIOD, AND TO DO SO ON THE BASIS OF THE TEXT GIVEN, MAKING ZERO ASSUMPTIONS ABOUT WHETHER IT IS COMPLETE OR INCOMPLETE, OR FOR SCHOOL OR FOR SOME OTHER CONTEXT.\n\n`;
-      
-      instructions += `METAPOINT 2: DO NOT OVERVALUE TURNS OF PHRASE. AN AUTHOR IS SPEAKING CONFIDENTLY IS NOT NECESSARILY "SHUTTING DOWN MODES OF INQUIRY". IN FACT, IT IS LIKELY TO BE THE OPPOSITE; BY PUTTING A CLEAR STAKE IN THE GROUND, HE IS PROBABLY OPENING THEM. ANOTHER EXAMPLE: CASUAL SPEECH DOES NOT MEAN DISORGANIZED THOUGHTS. DON'T JUDGE A BOOK BY ITS COVER.\n\n`;
-      
-      instructions += `METAPOINT 3: THE APP SHOULD ALWAYS (IN BOTH NORMAL AND COMPREHENSIVE MODE) START BY SUMMARIZING THE TEXT AND ALSO CATEGORIZING IT.\n\n`;
-      
-      instructions += `METAPOINT 4: THE APP SHOULD NOT CHANGE THE GRADING BASED ON THE CATEGORY OF THE TEXT: IF A TEXT IS CATEGORIZED AS 'ADVANCED SCHOLARSHIP', IT SHOULD STILL EVALUATE IT WITH RESPECT TO THE GENERAL POPULATION, NOT WITH RESPECT ONLY TO 'ADVANCED SCHOLARLY WORKS.'\n\n`;
-      
-      instructions += `METAPOINT 5: THIS IS NOT A GRADING APP. DO NOT PENALIZE BOLDNESS. DO NOT TAKE POINTS AWAY FOR INSIGHTS THAT, IF CORRECT, STAND ON THEIR OWN. GET RID OF THE IDEA THAT "ARGUMENTATION" IS WHAT MAKES SOMETHING SMART; IT ISN'T. WHAT MAKES SOMETHING SMART IS THAT IT IS SMART (INSIGHTFUL). PERIOD.\n\n`;
-      
-      // PHONY EXAMPLE PASSAGE - PARADIGM OF PSEUDO-INTELLECTUAL TEXT
-      instructions += `THE FOLLOWING PASSAGE IS TO BE USED AS A PARADIGM OF A PHONY, PSEUDO-INTELLECTUAL, NOT ACTUALLY INTELLIGENT PASSAGE THAT IS EASILY MISTAKEN FOR BEING ACTUALLY INTELLIGENT:\n\n`;
-      
-      instructions += `"In this dissertation, I critically examine the philosophy of transcendental empiricism. Transcendental empiricism is, among other things, a philosophy of mental content. It attempts to dissolve an epistemological dilemma of mental content by splitting the difference between two diametrically opposed accounts of content. John McDowell's minimal empiricism and Richard Gaskin's minimalist empiricism are two versions of transcendental empiricism. Transcendental empiricism itself originates with McDowell's work. This dissertation is divided into five parts. First, in the Introduction, I state the Wittgensteinian metaphilosophical orientation of transcendental empiricism. This metaphilosophical approach provides a plateau upon which much of the rest of this work may be examined. Second, I offer a detailed description of McDowell's minimal empiricism. Third, I critique Gaskin's critique and modification of McDowell's minimal empiricism. I argue that (1) Gaskin's critiques are faulty and that (2) Gaskin's minimalist empiricism is very dubious. Fourth, I scrutinize the alleged credentials of McDowell's minimal empiricism. I argue that McDowell's version of linguistic idealism is problematic. I then comment on a recent dialogue between transcendental empiricism and Hubert Dreyfus's phenomenology. The dialogue culminates with Dreyfus's accusation of the "Myth of the Mental." I argue that this accusation is correct in which case McDowell's direct realism is problematic. I conclude that minimal empiricism does not dissolve the dilemma of mental content. Finally, I argue that Tyler Burge successfully undermines the doctrine of disjunctivism, but disjunctivism is crucial for transcendental empiricism. Ultimately, however, I aim to show that transcendental empiricism is an attractive alternative to philosophies of mental content."\n\n`;
-      
-      instructions += `THIS PASSAGE EXEMPLIFIES: 1. DOCTRINES ARE LABELLED, BUT NEVER DEFINED; AND THEIR MEANINGS CANNOT BE INFERRED FROM CONTEXT; NOR DO THEY HAVE CANONICAL MEANINGS KNOWN TO SPECIALISTS. 2. THE PASSAGE CONTAINS "FREE VARIABLES" - QUALIFICATIONS THAT ARE NEVER CLARIFIED. 3. UNDEFINED JARGON THAT FUNCTIONS AS PLACEHOLDER PSEUDO-STATEMENTS. 4. EVASIVE LANGUAGE THAT SAYS NOTHING MEANINGFUL. 5. PURE ACADEMIC POSTURING WITHOUT SUBSTANCE.\n\n`;
-      
-      instructions += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
     }
     
+    if (protocol.preamble?.trim()) {
+      instructions += `${protocol.preamble.trim()}\n\n`;
+    }
+    
+    protocol.questions.forEach(question => {
+      instructions += `${question}\n\n`;
+    });
+    
+    [protocol.instructions, protocol.scoringNotes].filter(section => section.trim()).forEach(section => {
+      instructions += `${section.trim()}\n\n`;
+    });
+    
+    protocol.addenda.forEach(addendum => {
+      instructions += `${addendum.title}:\n${addendum.body}\n\n`;
+    });
+    
+    protocol.exemplars.forEach(exemplar => {
+      instructions += `${exemplar.label}:\n\n"${exemplar.text}"\n\n`;
+      if (exemplar.commentary.trim()) {
+        instructions += `${exemplar.commentary.trim()}\n\n`;
+      }
+    });
+    
+    instructions += `Format your response as JSON with summary, category, questions array (each with question, answer, score), overallScore, and finalAssessment.\n\n`;
     return instructions;
   }
 
 
-  private parseAnalysisResponse(response: string, mode: string, llmProvider: string): any {
+  // Structured output is used as-is when it matches the schema; otherwise the text parsers below take over
+  private parseAnalysisResponse(response: string, mode: string, llmProvider: string, structured: boolean = false): any {
     console.log(`Parsing response from ${llmProvider} for mode ${mode}`);
     console.log(`Raw response length: ${response.length}`);
     console.log(`Response preview: ${response.substring(0, 500)}`);
     
-    try {
-      let jsonStr = "";
-      
-      // Method 1: Look for JSON between ```json blocks
-      const jsonBlockMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonBlockMatch) {
-        jsonStr = jsonBlockMatch[1].trim();
-        console.log("Found JSON in code block");
-      } else {
-        // Method 2: Find the first complete JSON object
-        let braceCount = 0;
-        let start = -1;
-        let end = -1;
-        
-        for (let i = 0; i < response.length; i++) {
-          if (response[i] === '{') {
-            if (start === -1) start = i;
-            braceCount++;
-          } else if (response[i] === '}') {
-            braceCount--;
-            if (braceCount === 0 && start !== -1) {
-              end = i;
-              break;
-            }
-          }
-        }
-        
-        if (start !== -1 && end !== -1) {
-          jsonStr = response.substring(start, end + 1);
-          console.log("Found JSON object by brace matching");
-        }
+    if (structured) {
+      const output = this.parseStructuredOutput(response);
+      if (output) {
+        console.log("Using provider-enforced structured output");
+        return { ...output, outputPath: "structured-output" satisfies OutputPath };
       }
+    }
+    
+    try {
+      const jsonStr = this.extractJsonText(response);
       
       if (!jsonStr) {
         console.log("No JSON structure found, using raw response");
@@ -765,7 +1358,7 @@ export class AnalysisService {
       
       // Validate and fix response structure
       const validatedResponse = this.validateAndFixResponse(parsed, mode);
-      return validatedResponse;
+      return { ...validatedResponse, outputPath: "json-text" satisfies OutputPath };
       
     } catch (error) {
       console.error("Failed to parse LLM response:", error);
@@ -774,6 +1367,133 @@ export class AnalysisService {
     }
   }
 
+  // Hands the model its own malformed output and the schema violations, up to maxRepairAttempts times,
+  // before giving up on a paid response
+  private async parseWithRepair(request: AnalysisRequest, response: LLMResponse, onUpdate?: (update: any) => void, context?: RunContext, label: string = "Full text"): Promise<any> {
+    let { text, structured } = response;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const parsed = this.parseAnalysisResponse(text, request.mode, response.provider, structured);
+        return attempt > 0 ? { ...parsed, repairAttempts: attempt } : parsed;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (attempt >= this.maxRepairAttempts) {
+          throw new Error(attempt > 0 ? `${errorMessage} (after ${attempt} repair attempts)` : errorMessage);
+        }
+
+        const issues = this.describeOutputIssues(text, errorMessage);
+        console.warn(`Malformed response from ${response.provider} (${issues.join('; ')}); repair attempt ${attempt + 1}/${this.maxRepairAttempts}`);
+        onUpdate?.({
+          type: 'status',
+          message: `Response did not match the expected structure (${issues.join('; ')}) - asking ${response.provider} to correct it (attempt ${attempt + 1}/${this.maxRepairAttempts})...`,
+          phase: 'repair',
+          attempt: attempt + 1,
+          maxAttempts: this.maxRepairAttempts,
+          issues
+        });
+
+        const repaired = await this.llmService.callLLMWithFailover([response.provider], this.buildRepairPrompt(text, issues), undefined, {
+          generation: response.generation,
+          signal: context?.signal,
+          jobId: context?.jobId,
+          jobLabel: `${request.mode} · ${label} · repair`,
+          usageTags: { analysisId: context?.jobId, mode: request.mode },
+          responseSchema: ANALYSIS_RESPONSE_SCHEMA
+        });
+        text = repaired.text;
+        structured = repaired.structured;
+      }
+    }
+  }
+
+  // Zod issues against the analysis schema, as "path: message"; parseError stands in when there is nothing to validate
+  private describeOutputIssues(response: string, parseError: string): string[] {
+    const jsonStr = this.extractJsonText(response);
+    if (!jsonStr) {
+      return [`(root): no complete JSON object found - ${parseError}`];
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(jsonStr);
+    } catch (error) {
+      return [`(root): invalid JSON - ${error instanceof Error ? error.message : "Unknown error"}`];
+    }
+
+    const parsed = analysisOutputSchema.safeParse(json);
+    return parsed.success ? [parseError] : this.formatIssues(parsed.error.issues);
+  }
+
+  private formatIssues(issues: ZodIssue[]): string[] {
+    return issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  private buildRepairPrompt(response: string, issues: string[]): string {
+    let prompt = `Your previous response could not be used because it does not match the required JSON structure.\n\n`;
+    prompt += `PROBLEMS (JSON path: error):\n${issues.map(issue => `- ${issue}`).join('\n')}\n\n`;
+    prompt += `YOUR PREVIOUS RESPONSE:\n${response}\n\n`;
+    prompt += `Return only the corrected JSON object with summary (string), category (string), overallScore (number 0-100), `;
+    prompt += `questions (array of objects with question, answer and score) and finalAssessment (string). `;
+    prompt += `Keep your original answers and scores wherever they are present; fix only the structure.`;
+    return prompt;
+  }
+
+  // The JSON object embedded in a free-text answer, or "" when there is none
+  private extractJsonText(response: string): string {
+    let jsonStr = "";
+    
+    // Method 1: Look for JSON between ```json blocks
+    const jsonBlockMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonBlockMatch) {
+      jsonStr = jsonBlockMatch[1].trim();
+      console.log("Found JSON in code block");
+    } else {
+      // Method 2: Find the first complete JSON object
+      let braceCount = 0;
+      let start = -1;
+      let end = -1;
+      
+      for (let i = 0; i < response.length; i++) {
+        if (response[i] === '{') {
+          if (start === -1) start = i;
+          braceCount++;
+        } else if (response[i] === '}') {
+          braceCount--;
+          if (braceCount === 0 && start !== -1) {
+            end = i;
+            break;
+          }
+        }
+      }
+      
+      if (start !== -1 && end !== -1) {
+        jsonStr = response.substring(start, end + 1);
+        console.log("Found JSON object by brace matching");
+      }
+    }
+    
+    return jsonStr;
+  }
+
+  private parseStructuredOutput(response: string): AnalysisOutput | undefined {
+    let json: unknown;
+    try {
+      json = JSON.parse(response);
+    } catch (error) {
+      // Typically output cut off at the token limit
+      console.warn("Structured output is not valid JSON, falling back to text parsing:", error instanceof Error ? error.message : error);
+      return undefined;
+    }
+
+    const parsed = analysisOutputSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn(`Structured output does not match the analysis schema (${this.formatIssues(parsed.error.issues).join('; ')}), falling back to text parsing`);
+      return undefined;
+    }
+    return parsed.data;
+  }
+
   private validateAndFixResponse(parsed: any, mode: string): any {
     // Ensure required fields exist
     if (!parsed.summary) {
@@ -899,7 +1619,8 @@ export class AnalysisService {
       category: category,
       questions: questionObjects,
       overallScore: overall,
-      finalAssessment: finalAssessment
+      finalAssessment: finalAssessment,
+      outputPath: "text-fallback" satisfies OutputPath
     };
   }
 
@@ -916,37 +1637,6 @@ export class AnalysisService {
     return 'General Analysis';
   }
 
-  private getIntelligenceAssessmentAddendum(): string {
-    let addendum = `ADDENDUM TO INTELLIGENCE ASSESSMENT FUNCTIONS:\n`;
-    addendum += `YOU MUST SEND THIS ADDENDUM WHENEVER DOING EITHER THE COMPREHENSIVE OR THE NON-COMPREHENSIVE INTELLIGENCE ASSESSMENT:\n\n`;
-    
-    addendum += `METAPOINT 1: THIS IS NOT A GRADING APP. YOU GRADE THE INTELLIGENCE OF WHAT YOU ARE GIVEN. IF YOU ARE GIVEN A BRILLIANT FRAGMENT, YOU GIVE IT A HIGH SCORE. YOU ARE NOT GRADING ESSAYS. YOU ARE NOT LOOKING FOR COMPLETENESS (UNLESS THE TEXT YOU ARE GIVEN IS CLEARLY SUCH THAT EVALUATING INTELLIGENCE COINCIDES WITH APPLYING A GRADING-BASED METRIC). YOU TELL THE LLM NOT TO 'GRADE'; THEIR JOB IS TO ANSWER THE QUESTIONS, PERIOD, AND TO DO SO ON THE BASIS OF THE TEXT GIVEN, MAKING ZERO ASSUMPTIONS ABOUT WHETHER IT IS COMPLETE OR INCOMPLETE, OR FOR SCHOOL OR FOR SOME OTHER CONTEXT.\n\n`;
-    
-    addendum += `METAPOINT 2: DO NOT OVERVALUE TURNS OF PHRASE. AN AUTHOR SPEAKING CONFIDENTLY IS NOT NECESSARILY "SHUTTING DOWN MODES OF INQUIRY". IN FACT, IT IS LIKELY TO BE THE OPPOSITE; BY PUTTING A CLEAR STAKE IN THE GROUND, HE IS PROBABLY OPENING THEM. ANOTHER EXAMPLE: CASUAL SPEECH DOES NOT MEAN DISORGANIZED THOUGHTS. DON'T JUDGE A BOOK BY ITS COVER.\n\n`;
-    
-    addendum += `METAPOINT 3: THE APP SHOULD ALWAYS (IN BOTH NORMAL AND COMPREHENSIVE MODE) START BY SUMMARIZING THE TEXT AND ALSO CATEGORIZING IT.\n\n`;
-    
-    addendum += `METAPOINT 4: THE APP SHOULD NOT CHANGE THE GRADING BASED ON THE CATEGORY OF THE TEXT: IF A TEXT IS CATEGORIZED AS 'ADVANCED SCHOLARSHIP', IT SHOULD STILL EVALUATE IT WITH RESPECT TO THE GENERAL POPULATION, NOT WITH RESPECT ONLY TO 'ADVANCED SCHOLARLY WORKS.'\n\n`;
-    
-    addendum += `METAPOINT 5: THIS IS NOT A GRADING APP. DO NOT PENALIZE BOLDNESS. DO NOT TAKE POINTS AWAY FOR INSIGHTS THAT, IF CORRECT, STAND ON THEIR OWN. GET RID OF THE IDEA THAT "ARGUMENTATION" IS WHAT MAKES SOMETHING SMART; IT ISN'T. WHAT MAKES SOMETHING SMART IS THAT IT IS SMART (INSIGHTFUL). PERIOD.\n\n`;
-    
-    addendum += `METAPOINT 6: A SCORE OF N/100 MEANS THAT (100 MINUS N)/100 ARE SMARTER (E.G. 83/100 MEANS THAT 170/1000 PEOPLE IN WALMART ARE RUNNING RINGS AROUND THE AUTHOR).\n\n`;
-    
-    addendum += this.getPseudoIntellectualExample();
-    
-    return addendum;
-  }
-
-  private getPseudoIntellectualExample(): string {
-    let example = `THE FOLLOWING PASSAGE IS TO BE USED AS A PARADIGM OF A PHONY, PSEUDO-INTELLECTUAL, NOT ACTUALLY INTELLIGENT PASSAGE THAT IS EASILY MISTAKEN FOR BEING ACTUALLY INTELLIGENT:\n\n`;
-    
-    example += `In this dissertation, I critically examine the philosophy of transcendental empiricism. Transcendental empiricism is, among other things, a philosophy of mental content. It attempts to dissolve an epistemological dilemma of mental content by splitting the difference between two diametrically opposed accounts of content. John McDowell's minimal empiricism and Richard Gaskin's minimalist empiricism are two versions of transcendental empiricism. Transcendental empiricism itself originates with McDowell's work. This dissertation is divided into five parts. First, in the Introduction, I state the Wittgensteinian metaphilosophical orientation of transcendental empiricism. This metaphilosophical approach provides a plateau upon which much of the rest of this work may be examined. Second, I offer a detailed description of McDowell's minimal empiricism. Third, I critique Gaskin's critique and modification of McDowell's minimal empiricism. I argue that (1) Gaskin's critiques are faulty and that (2) Gaskin's minimalist empiricism is very dubious. Fourth, I scrutinize the alleged credentials of McDowell's minimal empiricism. I argue that McDowell's version of linguistic idealism is problematic. I then comment on a recent dialogue between transcendental empiricism and Hubert Dreyfus's phenomenology. The dialogue culminates with Dreyfus's accusation of the "Myth of the Mental." I argue that this accusation is correct in which case McDowell's direct realism is problematic. I conclude that minimal empiricism does not dissolve the dilemma of mental content. Finally, I argue that Tyler Burge successfully undermines the doctrine of disjunctivism, but disjunctivism is crucial for transcendental empiricism. Ultimately, however, I aim to show that transcendental empiricism is an attractive alternative to philosophies of mental content.\n\n`;
-    
-    example += `USE THIS AS A PARADIGM OF EMPTY AND STUPID PROSE MASQUERADING AS INTELLIGENT, LEARNED, AND DEEP PROSE. USE IT TO CALIBRATE YOUR ASSESSMENT OF PSEUDO-INTELLECTUAL WRITING THAT USES JARGON TO OBFUSCATE RATHER THAN CLARIFY.\n\n`;
-    
-    return example;
-  }
-
   getResult(id: string): AnalysisResult | undefined {
     return this.results.get(id);
   }
@@ -956,9 +1646,96 @@ export class AnalysisService {
     txt += `========================\n\n`;
     txt += `Analysis Mode: ${result.mode}\n`;
     txt += `LLM Provider: ${result.llmProvider}\n`;
+    if (result.providerUsed && result.providerUsed !== result.llmProvider) {
+      txt += `Provider Used: ${result.providerUsed} (fallback)\n`;
+    }
+    if (result.generation) {
+      txt += `Model: ${result.generation.model}\n`;
+      txt += `Max Tokens: ${result.generation.maxTokens}\n`;
+      if (result.generation.temperature !== undefined) txt += `Temperature: ${result.generation.temperature}\n`;
+      if (result.generation.seed !== undefined) txt += `Seed: ${result.generation.seed}\n`;
+    }
+    if (result.protocol) {
+      txt += `Protocol: ${result.protocol.name} (${result.protocol.id} v${result.protocol.version})\n`;
+    }
+    if (result.cancelled) {
+      txt += `Status: CANCELLED (partial results)\n`;
+    }
+    if (result.fromCache) {
+      txt += `Served From Cache: originally analyzed ${result.cachedAt}\n`;
+    }
+    if (result.outputPath) {
+      txt += `Output Parsed From: ${result.outputPath}${result.repairAttempts ? ` (after ${result.repairAttempts} repair attempts)` : ''}\n`;
+    }
     txt += `Overall Score: ${result.overallScore}/100\n`;
     txt += `Timestamp: ${result.timestamp}\n\n`;
     
+    if (result.consensus) {
+      const { consensus } = result;
+      const describe = (spread: ScoreSpread) =>
+        `mean ${spread.mean.toFixed(1)}, median ${spread.median}, spread ${spread.spread} (${Object.entries(spread.scores).map(([provider, score]) => `${provider} ${score}`).join(', ')})${spread.disagreement ? ' - PROVIDERS DISAGREE' : ''}`;
+      
+      txt += `CONSENSUS\n`;
+      txt += `---------\n`;
+      txt += `Overall: ${describe(consensus.overall)}\n`;
+      txt += `Disagreement threshold: spread above ${consensus.threshold}\n`;
+      consensus.members.forEach(member => {
+        txt += `${member.provider}: ${member.error ? `FAILED - ${member.error}` : `${member.overallScore}/100`}\n`;
+      });
+      txt += `\n`;
+      consensus.questions.forEach((spread, index) => {
+        txt += `${index + 1}. ${spread.question}\n   ${describe(spread)}\n`;
+      });
+      txt += `\n`;
+    }
+    
+    const describeDistribution = (distribution: SampleDistribution) =>
+      `mean ${distribution.mean.toFixed(1)}, sd ${distribution.sd.toFixed(1)}, range ${distribution.min}-${distribution.max}, interval ${distribution.interval[0].toFixed(1)}-${distribution.interval[1].toFixed(1)} (${distribution.values.join(', ')})`;
+    
+    if (result.sampling) {
+      const { sampling } = result;
+      txt += `SAMPLING\n`;
+      txt += `--------\n`;
+      txt += `Runs: ${sampling.runs}${sampling.runs < sampling.requestedRuns ? ` of ${sampling.requestedRuns} requested` : ''}; intervals at ${sampling.confidenceLevel * 100}% (bootstrap)\n`;
+      txt += `Overall: ${describeDistribution(sampling.overall)}\n`;
+      sampling.questions.forEach((distribution, index) => {
+        txt += `${index + 1}. ${distribution.question}\n   ${describeDistribution(distribution)}\n`;
+      });
+      txt += `\n`;
+    }
+    
+    if (result.phases?.length) {
+      txt += `ASSESSMENT PHASES\n`;
+      txt += `-----------------\n`;
+      result.phases.forEach(phase => {
+        txt += `${phase.phase}: ${phase.overallScore}/100${phase.challenged ? ` (${phase.challenged.length} questions challenged)` : ''}\n`;
+      });
+      txt += `\n`;
+    }
+    
+    if (result.synthesis && result.synthesis.levels.length > 1) {
+      txt += `SYNTHESIS\n`;
+      txt += `---------\n`;
+      result.synthesis.levels.forEach((nodes, level) => {
+        txt += `${level === 0 ? 'Chunks' : `Level ${level}`}: ${nodes.map(node => `${node.title} ${node.overallScore}/100`).join(', ')}\n`;
+      });
+      txt += `\n`;
+    } else if (result.synthesis?.error) {
+      txt += `Synthesis failed (${result.synthesis.error}); chunk scores were averaged\n\n`;
+    }
+    
+    if (result.chunkOutcomes?.length) {
+      txt += `CHUNKS\n`;
+      txt += `------\n`;
+      result.chunkOutcomes.forEach(outcome => {
+        txt += `${outcome.chunkTitle}: ${outcome.error ? `FAILED - ${outcome.error}` : outcome.provider}${outcome.fromCache ? ' (cached)' : ''}\n`;
+        if (outcome.sampling) {
+          txt += `   ${outcome.sampling.runs} runs, overall ${describeDistribution(outcome.sampling.overall)}\n`;
+        }
+      });
+      txt += `\n`;
+    }
+    
     txt += `SUMMARY\n`;
     txt += `-------\n`;
     txt += `${result.summary}\n\n`;
@@ -0,0 +1,70 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+export type CassetteMode = "off" | "record" | "replay";
+
+export interface CassetteKey {
+  provider: string;
+  model: string;
+  systemPrompt?: string;
+  prompt: string;
+  // Name of the structured output schema the call was constrained to, if any
+  responseFormat?: string;
+}
+
+export interface Cassette extends CassetteKey {
+  response: string;
+  // Chunks as the provider streamed them; absent for non-streaming calls
+  chunks?: string[];
+  recordedAt: string;
+}
+
+const DEFAULT_CASSETTE_DIR = ".llm-cassettes";
+
+export class CassetteStore {
+  constructor(public readonly mode: CassetteMode, private directory: string) {}
+
+  // LLM_CASSETTE_MODE selects record or replay; cassettes live in LLM_CASSETTE_DIR
+  static fromEnv(): CassetteStore {
+    const mode = (process.env.LLM_CASSETTE_MODE || "off").toLowerCase();
+    if (mode !== "off" && mode !== "record" && mode !== "replay") {
+      throw new Error(`Invalid LLM_CASSETTE_MODE: ${mode} (expected off, record or replay)`);
+    }
+
+    const directory = path.resolve(process.cwd(), process.env.LLM_CASSETTE_DIR || DEFAULT_CASSETTE_DIR);
+    if (mode !== "off") {
+      console.log(`LLM cassettes: ${mode} mode using ${directory}`);
+    }
+    return new CassetteStore(mode, directory);
+  }
+
+  hashKey(key: CassetteKey): string {
+    return createHash("sha256")
+      // The format is only appended when set so cassettes of unconstrained calls keep their hash
+      .update(JSON.stringify([key.provider, key.model, key.systemPrompt || "", key.prompt, ...(key.responseFormat ? [key.responseFormat] : [])]))
+      .digest("hex");
+  }
+
+  async load(key: CassetteKey): Promise<Cassette> {
+    const hash = this.hashKey(key);
+    try {
+      return JSON.parse(await readFile(this.filePath(hash), "utf-8")) as Cassette;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`No cassette recorded for ${key.provider}/${key.model} (${hash.substring(0, 12)})`);
+      }
+      throw error;
+    }
+  }
+
+  async save(key: CassetteKey, response: string, chunks?: string[]): Promise<void> {
+    const cassette: Cassette = { ...key, response, chunks, recordedAt: new Date().toISOString() };
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(this.hashKey(key)), JSON.stringify(cassette, null, 2), "utf-8");
+  }
+
+  private filePath(hash: string): string {
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
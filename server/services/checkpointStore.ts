@@ -0,0 +1,112 @@
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { AnalysisRequest, AnalysisResult } from "@shared/schema";
+
+const DEFAULT_CHECKPOINT_DIR = ".analysis-checkpoints";
+const DEFAULT_RETENTION_DAYS = 7;
+const REQUEST_FILE = "request.json";
+const CHUNK_FILE = /^chunk-(\d+)\.json$/;
+
+// One chunk's analysis or, when it failed or was cancelled, its error
+export type ChunkOutcome = { chunkId: string; chunkTitle: string; error?: string } & Partial<AnalysisResult>;
+
+export interface AnalysisCheckpoint {
+  request: AnalysisRequest;
+  createdAt: string;
+  // Indexed like the request's selected chunks; chunks that never ran are missing
+  chunks: (ChunkOutcome | undefined)[];
+}
+
+// The request and each finished chunk of a chunked analysis, written to disk as they complete so failed
+// chunks can be retried later, also after a restart. Every chunk has its own file, so parallel chunks never
+// write the same one.
+export class CheckpointStore {
+  constructor(
+    private directory: string | null,
+    // How long a run's checkpoint is kept after its last write
+    private retentionMs: number = DEFAULT_RETENTION_DAYS * 86_400_000
+  ) {}
+
+  // ANALYSIS_CHECKPOINTS=off disables checkpoints; they live in ANALYSIS_CHECKPOINT_DIR and are removed
+  // ANALYSIS_CHECKPOINT_RETENTION_DAYS after their last write
+  static fromEnv(): CheckpointStore {
+    if ((process.env.ANALYSIS_CHECKPOINTS || "on").toLowerCase() === "off") {
+      return new CheckpointStore(null);
+    }
+
+    const retentionDays = Number(process.env.ANALYSIS_CHECKPOINT_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS);
+    if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+      throw new Error(`Invalid ANALYSIS_CHECKPOINT_RETENTION_DAYS: ${process.env.ANALYSIS_CHECKPOINT_RETENTION_DAYS}`);
+    }
+    return new CheckpointStore(path.resolve(process.cwd(), process.env.ANALYSIS_CHECKPOINT_DIR || DEFAULT_CHECKPOINT_DIR), retentionDays * 86_400_000);
+  }
+
+  get enabled(): boolean {
+    return this.directory !== null;
+  }
+
+  async begin(runId: string, request: AnalysisRequest): Promise<void> {
+    if (!this.directory) return;
+    await this.pruneExpired().catch(error => console.error("Failed to prune analysis checkpoints:", error));
+    await mkdir(this.runDirectory(runId), { recursive: true });
+    await writeFile(
+      path.join(this.runDirectory(runId), REQUEST_FILE),
+      JSON.stringify({ request, createdAt: new Date().toISOString() }, null, 2),
+      "utf-8"
+    );
+  }
+
+  async saveChunk(runId: string, index: number, outcome: ChunkOutcome): Promise<void> {
+    if (!this.directory) return;
+    await writeFile(path.join(this.runDirectory(runId), `chunk-${index}.json`), JSON.stringify(outcome, null, 2), "utf-8");
+  }
+
+  async load(runId: string): Promise<AnalysisCheckpoint | undefined> {
+    // Run ids are UUIDs; anything else could point outside the checkpoint directory
+    if (!this.directory || !/^[\w-]+$/.test(runId)) return undefined;
+    try {
+      const { request, createdAt } = JSON.parse(await readFile(path.join(this.runDirectory(runId), REQUEST_FILE), "utf-8"));
+      const chunks: (ChunkOutcome | undefined)[] = [];
+      for (const file of await readdir(this.runDirectory(runId))) {
+        const match = file.match(CHUNK_FILE);
+        if (match) {
+          chunks[Number(match[1])] = JSON.parse(await readFile(path.join(this.runDirectory(runId), file), "utf-8"));
+        }
+      }
+      return { request, createdAt, chunks };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to read analysis checkpoint:", error);
+      }
+      return undefined;
+    }
+  }
+
+  // Removes the checkpoints of runs that have not been written to within the retention period
+  private async pruneExpired(): Promise<void> {
+    const cutoff = Date.now() - this.retentionMs;
+    let runIds: string[];
+    try {
+      runIds = await readdir(this.directory!);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    for (const runId of runIds) {
+      const runDir = this.runDirectory(runId);
+      const dirStat = await stat(runDir);
+      if (!dirStat.isDirectory()) continue;
+      // A run that was just created has no files yet; the directory's own time covers it
+      const fileStats = await Promise.all((await readdir(runDir)).map(file => stat(path.join(runDir, file))));
+      const lastWrite = Math.max(dirStat.mtimeMs, ...fileStats.map(fileStat => fileStat.mtimeMs));
+      if (lastWrite < cutoff) {
+        await rm(runDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private runDirectory(runId: string): string {
+    return path.join(this.directory!, runId);
+  }
+}
@@ -0,0 +1,100 @@
+import type { PacingPolicy } from "@shared/schema";
+import { sleep } from "../utils/abort";
+
+const DEFAULT_PACING: PacingPolicy = { maxConcurrency: 4, minIntervalMs: 0, deliveryDelayMs: 0 };
+
+// Runs the chunks of one analysis side by side within a pacing policy; the provider call queue
+// still caps how many calls actually reach each provider
+export class ChunkPacer {
+  constructor(
+    private defaults: PacingPolicy = ChunkPacer.defaultsFromEnv(),
+    private overridesFor: (provider: string) => Partial<PacingPolicy> | undefined = () => undefined
+  ) {}
+
+  // PACING_MAX_CONCURRENCY, PACING_MIN_INTERVAL_MS and PACING_DELIVERY_DELAY_MS replace the defaults
+  static defaultsFromEnv(): PacingPolicy {
+    const read = (envVar: string, fallback: number, min: number): number => {
+      const raw = process.env[envVar];
+      if (!raw) return fallback;
+
+      const value = Number(raw);
+      if (!Number.isInteger(value) || value < min) {
+        throw new Error(`Invalid ${envVar}: ${raw}`);
+      }
+      return value;
+    };
+
+    return {
+      maxConcurrency: read("PACING_MAX_CONCURRENCY", DEFAULT_PACING.maxConcurrency, 1),
+      minIntervalMs: read("PACING_MIN_INTERVAL_MS", DEFAULT_PACING.minIntervalMs, 0),
+      deliveryDelayMs: read("PACING_DELIVERY_DELAY_MS", DEFAULT_PACING.deliveryDelayMs, 0)
+    };
+  }
+
+  // The provider's own pacing settings take precedence over the defaults
+  policyFor(provider: string): PacingPolicy {
+    return { ...this.defaults, ...this.overridesFor(provider) };
+  }
+
+  // Runs task for every index, at most maxConcurrency at once and starting at least minIntervalMs apart.
+  // Each task reports through its own onUpdate: the lowest unfinished task's updates pass straight
+  // through, later tasks' are held back and replayed when they reach the front, so progress reads
+  // in chunk order. After cancellation no further task starts and those indexes stay undefined.
+  async run<T>(
+    policy: PacingPolicy,
+    count: number,
+    task: (index: number, onUpdate: (update: any) => void) => Promise<T>,
+    onUpdate: (update: any) => void,
+    signal?: AbortSignal
+  ): Promise<(T | undefined)[]> {
+    const results: (T | undefined)[] = new Array(count).fill(undefined);
+    const held: any[][] = Array.from({ length: count }, () => []);
+    const finished: boolean[] = new Array(count).fill(false);
+    let front = 0;
+    let next = 0;
+    let nextStartAt = 0;
+
+    const relay = (index: number) => (update: any) => {
+      if (index === front) {
+        onUpdate(update);
+      } else {
+        // Each streaming_text update carries all text so far, so only the latest of a run of them is kept
+        const pending = held[index];
+        if (update.type === 'streaming_text' && pending[pending.length - 1]?.type === 'streaming_text') {
+          pending.pop();
+        }
+        pending.push(update);
+      }
+    };
+
+    const finish = (index: number) => {
+      finished[index] = true;
+      while (front < count && finished[front]) {
+        front++;
+        if (front < count) held[front].splice(0).forEach(onUpdate);
+      }
+    };
+
+    const worker = async () => {
+      while (next < count && !signal?.aborted) {
+        const index = next++;
+        // Reserve the start time before waiting so concurrent workers space out behind it
+        const startAt = Math.max(Date.now(), nextStartAt);
+        nextStartAt = startAt + policy.minIntervalMs;
+
+        try {
+          if (startAt > Date.now()) await sleep(startAt - Date.now(), signal);
+          results[index] = await task(index, relay(index));
+        } catch (error) {
+          if (signal?.aborted) return;
+          throw error;
+        } finally {
+          finish(index);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(policy.maxConcurrency, count) }, worker));
+    return results;
+  }
+}
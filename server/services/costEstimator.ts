@@ -0,0 +1,118 @@
+import type { AnalysisRequest, CostEstimate } from "@shared/schema";
+import { ProviderRegistry } from "./providerRegistry";
+import { LLMService } from "./llmService";
+import { AnalysisService } from "./analysisService";
+import { estimateTokens } from "../utils/tokenEstimate";
+
+const DEFAULT_CONFIRM_THRESHOLD_USD = 1;
+
+export class CostEstimator {
+  constructor(
+    private registry: ProviderRegistry,
+    private llmService: LLMService,
+    private analysisService: AnalysisService,
+    private confirmThreshold: number = CostEstimator.thresholdFromEnv()
+  ) {}
+
+  // ESTIMATE_CONFIRM_USD sets the cost above which the client asks before running
+  static thresholdFromEnv(): number {
+    const raw = process.env.ESTIMATE_CONFIRM_USD;
+    if (!raw) return DEFAULT_CONFIRM_THRESHOLD_USD;
+
+    const threshold = Number(raw);
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      throw new Error(`Invalid ESTIMATE_CONFIRM_USD: ${raw}`);
+    }
+    return threshold;
+  }
+
+  // Output tokens are counted at the request's max tokens, so costs are an upper bound on output
+  estimate(request: AnalysisRequest, providers: string[] = request.consensusProviders ?? [request.llmProvider]): CostEstimate {
+    const prompts = this.analysisService.buildCallPrompts(request);
+    const runs = request.samples ?? 1;
+    const calls: CostEstimate["calls"] = [];
+    const unpricedModels = new Set<string>();
+    const warnings = new Set<string>();
+
+    for (const provider of providers) {
+      const config = this.registry.require(provider);
+      // As with failover, a model override only applies to the primary provider
+      const params = { model: provider === request.llmProvider ? request.model : undefined, maxTokens: request.maxTokens };
+      const generation = this.llmService.resolveGeneration(config, params);
+      const pricing = this.registry.getPricing(config, generation.model);
+      if (!pricing) unpricedModels.add(`${provider}/${generation.model}`);
+
+      // Repeated sampling makes every call once per run
+      for (let run = 1; run <= runs; run++) {
+        for (const { chunkId, chunkTitle: promptTitle, systemPrompt, prompt } of prompts) {
+          const chunkTitle = runs > 1 ? `${promptTitle} · run ${run}` : promptTitle;
+          const inputTokens = estimateTokens(prompt) + (systemPrompt ? estimateTokens(systemPrompt) : 0);
+          const outputTokens = generation.maxTokens;
+
+          if (config.contextWindow && inputTokens + outputTokens > config.contextWindow) {
+            warnings.add(`${promptTitle} (~${inputTokens} tokens plus ${outputTokens} output) exceeds the ${config.contextWindow}-token context window of ${config.label}`);
+          }
+
+          calls.push({
+            chunkId,
+            chunkTitle,
+            provider,
+            model: generation.model,
+            inputTokens,
+            outputTokens,
+            cost: this.registry.priceCall(config, generation.model, inputTokens, outputTokens)
+          });
+
+          // Long modes may add a pushback and a reconciliation call, each quoting the earlier answers;
+          // their prompts are bounded by the initial prompt plus the earlier outputs
+          if (this.analysisService.isLongMode(request.mode)) {
+            for (const { phase, earlierOutputs } of [{ phase: "pushback", earlierOutputs: 1 }, { phase: "reconciliation", earlierOutputs: 2 }]) {
+              const phaseInputTokens = inputTokens + outputTokens * earlierOutputs;
+              calls.push({
+                chunkId,
+                chunkTitle: `${chunkTitle} · ${phase}`,
+                provider,
+                model: generation.model,
+                inputTokens: phaseInputTokens,
+                outputTokens,
+                cost: this.registry.priceCall(config, generation.model, phaseInputTokens, outputTokens)
+              });
+            }
+          }
+        }
+      }
+
+      // Chunked jobs end with synthesis calls, each quoting a group of earlier assessments
+      if (prompts.length > 1) {
+        const outputTokens = generation.maxTokens;
+        for (const { level, inputs } of this.analysisService.estimateSynthesisCalls(prompts.length, outputTokens * 4)) {
+          const inputTokens = inputs * outputTokens;
+          calls.push({
+            chunkTitle: `Synthesis level ${level} (${inputs} assessments)`,
+            provider,
+            model: generation.model,
+            inputTokens,
+            outputTokens,
+            cost: this.registry.priceCall(config, generation.model, inputTokens, outputTokens)
+          });
+        }
+      }
+    }
+
+    const totalCost = calls.reduce((sum, call) => sum + (call.cost ?? 0), 0);
+    return {
+      calls,
+      totals: {
+        calls: calls.length,
+        inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+        outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+        cost: totalCost
+      },
+      currency: "USD",
+      unpricedModels: Array.from(unpricedModels),
+      warnings: Array.from(warnings),
+      confirmThreshold: this.confirmThreshold,
+      requiresConfirmation: totalCost > this.confirmThreshold
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { randomUUID } from "crypto";
+import type { AnalysisJob, AnalysisRequest, AnalysisResult, JobStatus } from "@shared/schema";
+import { AnalysisService } from "./analysisService";
+
+const DEFAULT_RETENTION_MINUTES = 60;
+const PRUNE_INTERVAL_MS = 60_000;
+// Above this many buffered events a job's log is compacted
+const MAX_BUFFERED_EVENTS = 200;
+
+// Produces a job's result, reporting progress through onUpdate
+export type JobRunner = (onUpdate: (update: any) => void, signal: AbortSignal) => Promise<AnalysisResult>;
+
+// One update of a job's event stream; ids increase by one per event
+export interface JobEvent {
+  id: number;
+  data: any;
+}
+
+interface Job {
+  id: string;
+  status: JobStatus;
+  mode: string;
+  llmProvider: string;
+  createdAt: string;
+  updatedAt: string;
+  message?: string;
+  phase?: string;
+  partialResults: AnalysisJob["partialResults"];
+  result?: AnalysisResult;
+  error?: string;
+  nextEventId: number;
+  events: JobEvent[];
+  listeners: Set<(event: JobEvent) => void>;
+  controller: AbortController;
+}
+
+// Runs analyses in the background and keeps each one's event log, so clients can disconnect
+// and later replay whatever they missed
+export class JobManager {
+  private jobs: Map<string, Job> = new Map();
+
+  constructor(
+    private analysisService: AnalysisService,
+    // JOB_RETENTION_MINUTES: how long a finished job stays available
+    private retentionMs: number = Number(process.env.JOB_RETENTION_MINUTES ?? DEFAULT_RETENTION_MINUTES) * 60_000
+  ) {
+    if (!Number.isFinite(retentionMs) || retentionMs < 0) {
+      throw new Error(`Invalid JOB_RETENTION_MINUTES: ${process.env.JOB_RETENTION_MINUTES}`);
+    }
+    // Finished jobs expire even when no new job is started
+    setInterval(() => this.pruneFinished(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  // Runs the request as a new analysis unless another runner is given, e.g. a retry of failed chunks
+  start(
+    request: AnalysisRequest,
+    runner: JobRunner = (onUpdate, signal) => this.analysisService.analyzeWithStreaming(request, onUpdate, signal)
+  ): AnalysisJob {
+    this.pruneFinished();
+
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: randomUUID(),
+      status: "running",
+      mode: request.mode,
+      llmProvider: request.llmProvider,
+      createdAt: now,
+      updatedAt: now,
+      partialResults: [],
+      nextEventId: 1,
+      events: [],
+      listeners: new Set(),
+      controller: new AbortController()
+    };
+    this.jobs.set(job.id, job);
+
+    void this.run(job, runner);
+    return this.toSnapshot(job);
+  }
+
+  get(id: string): AnalysisJob | undefined {
+    const job = this.jobs.get(id);
+    return job && this.toSnapshot(job);
+  }
+
+  // The job finishes as cancelled, keeping whatever it had completed
+  cancel(id: string): AnalysisJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.status === "running") {
+      job.controller.abort(new Error("Cancelled by user"));
+    }
+    return this.toSnapshot(job);
+  }
+
+  // Replays the events after lastEventId, then passes on new ones as they happen; a finished job's
+  // log ends with its "complete" or "error" event. Returns undefined for an unknown job.
+  subscribe(id: string, lastEventId: number, listener: (event: JobEvent) => void): (() => void) | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    job.events.filter(event => event.id > lastEventId).forEach(listener);
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  private async run(job: Job, runner: JobRunner): Promise<void> {
+    try {
+      const result = await runner(update => this.record(job, update), job.controller.signal);
+      job.result = result;
+      job.status = result.cancelled ? "cancelled" : "completed";
+      this.record(job, { type: 'complete', result });
+    } catch (error) {
+      console.error(`Job ${job.id} failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      job.error = errorMessage;
+      job.status = "failed";
+      this.record(job, { type: 'error', error: `Analysis failed: ${errorMessage}` });
+    }
+  }
+
+  private record(job: Job, update: any): void {
+    job.updatedAt = new Date().toISOString();
+    if (update.type === 'status') {
+      job.message = update.message;
+      job.phase = update.phase;
+    } else if (update.type === 'progress') {
+      job.partialResults.push({ label: update.label, result: update.result });
+    }
+
+    // Each streaming_text event carries all text so far, so only the latest of a run of them is kept
+    if (update.type === 'streaming_text' && job.events[job.events.length - 1]?.data.type === 'streaming_text') {
+      job.events.pop();
+    }
+
+    const event: JobEvent = { id: job.nextEventId++, data: update };
+    job.events.push(event);
+    if (job.events.length > MAX_BUFFERED_EVENTS) {
+      job.events = this.compact(job.events);
+    }
+    job.listeners.forEach(listener => listener(event));
+  }
+
+  // Clients only show the latest status, streaming text and partial result, so a replay needs just the
+  // last event of each type; ids keep increasing, so Last-Event-ID still resumes in the right place
+  private compact(events: JobEvent[]): JobEvent[] {
+    const latest = new Map<string, number>();
+    events.forEach(event => latest.set(event.data.type, event.id));
+    return events.filter(event => latest.get(event.data.type) === event.id);
+  }
+
+  private pruneFinished(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    Array.from(this.jobs.values())
+      .filter(job => job.status !== "running" && Date.parse(job.updatedAt) < cutoff)
+      .forEach(job => this.jobs.delete(job.id));
+  }
+
+  private toSnapshot(job: Job): AnalysisJob {
+    return {
+      id: job.id,
+      status: job.status,
+      mode: job.mode,
+      llmProvider: job.llmProvider,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      lastEventId: job.nextEventId - 1,
+      message: job.message,
+      phase: job.phase,
+      partialResults: job.partialResults,
+      result: job.result,
+      error: job.error
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import type { QueueSnapshot } from "@shared/schema";
+
+export interface QueuePosition {
+  provider: string;
+  position: number; // 1-based place among calls waiting for this provider
+  waiting: number;
+  active: number;
+  maxConcurrency: number;
+}
+
+export interface QueueTicket {
+  jobId: string;
+  label: string;
+  signal?: AbortSignal;
+  onPosition?: (info: QueuePosition) => void;
+}
+
+interface WaitingEntry extends QueueTicket {
+  seq: number;
+  enqueuedAt: string;
+  lastReportedPosition?: number;
+  start: () => void;
+}
+
+interface ActiveEntry {
+  jobId: string;
+  label: string;
+  startedAt: string;
+}
+
+interface ProviderLane {
+  maxConcurrency: number;
+  active: Set<ActiveEntry>;
+  waiting: WaitingEntry[];
+  // When each job last got a slot; the job served longest ago goes next
+  lastServed: Map<string, number>;
+}
+
+// Caps concurrent calls per provider across all requests and hands free slots to jobs in turn,
+// so one long chunked run cannot starve everyone else's calls
+export class LLMCallQueue {
+  private lanes: Map<string, ProviderLane> = new Map();
+  private seq = 0;
+
+  constructor(private concurrencyFor: (provider: string) => number) {}
+
+  // Resolves once a slot is free; the returned function must be called to give the slot back
+  async acquire(provider: string, ticket: QueueTicket): Promise<() => void> {
+    ticket.signal?.throwIfAborted();
+    const lane = this.getLane(provider);
+
+    if (lane.active.size < lane.maxConcurrency && lane.waiting.length === 0) {
+      return this.start(provider, lane, ticket);
+    }
+
+    return await new Promise<() => void>((resolve, reject) => {
+      const onAbort = () => {
+        lane.waiting = lane.waiting.filter(waiting => waiting !== entry);
+        reject(ticket.signal!.reason);
+        this.reportPositions(provider, lane);
+      };
+      const entry: WaitingEntry = {
+        ...ticket,
+        seq: this.seq++,
+        enqueuedAt: new Date().toISOString(),
+        start: () => {
+          ticket.signal?.removeEventListener("abort", onAbort);
+          resolve(this.start(provider, lane, ticket));
+        }
+      };
+
+      ticket.signal?.addEventListener("abort", onAbort, { once: true });
+      lane.waiting.push(entry);
+      this.reportPositions(provider, lane);
+    });
+  }
+
+  // Lists the given providers even if they have not been called yet
+  snapshot(providers: string[] = Array.from(this.lanes.keys())): QueueSnapshot {
+    return {
+      providers: providers.map(provider => {
+        const lane = this.getLane(provider);
+        return {
+          provider,
+          maxConcurrency: lane.maxConcurrency,
+          active: Array.from(lane.active),
+          waiting: this.schedulingOrder(lane).map((entry, index) => ({
+            jobId: entry.jobId,
+            label: entry.label,
+            enqueuedAt: entry.enqueuedAt,
+            position: index + 1
+          }))
+        };
+      })
+    };
+  }
+
+  private getLane(provider: string): ProviderLane {
+    let lane = this.lanes.get(provider);
+    if (!lane) {
+      lane = { maxConcurrency: this.concurrencyFor(provider), active: new Set(), waiting: [], lastServed: new Map() };
+      this.lanes.set(provider, lane);
+    }
+    return lane;
+  }
+
+  private start(provider: string, lane: ProviderLane, ticket: QueueTicket): () => void {
+    const entry: ActiveEntry = { jobId: ticket.jobId, label: ticket.label, startedAt: new Date().toISOString() };
+    lane.active.add(entry);
+    lane.lastServed.set(ticket.jobId, this.seq++);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      lane.active.delete(entry);
+      this.dispatch(provider, lane);
+    };
+  }
+
+  private dispatch(provider: string, lane: ProviderLane): void {
+    while (lane.active.size < lane.maxConcurrency && lane.waiting.length > 0) {
+      const next = this.schedulingOrder(lane)[0];
+      lane.waiting = lane.waiting.filter(entry => entry !== next);
+      next.start();
+    }
+
+    // Jobs with nothing queued or running no longer need a turn record
+    for (const jobId of Array.from(lane.lastServed.keys())) {
+      const busy = lane.waiting.some(entry => entry.jobId === jobId) || Array.from(lane.active).some(entry => entry.jobId === jobId);
+      if (!busy) lane.lastServed.delete(jobId);
+    }
+
+    this.reportPositions(provider, lane);
+  }
+
+  // Jobs take turns: the job served longest ago goes first, and each job's calls keep their order
+  private schedulingOrder(lane: ProviderLane): WaitingEntry[] {
+    const byJob = new Map<string, WaitingEntry[]>();
+    for (const entry of [...lane.waiting].sort((a, b) => a.seq - b.seq)) {
+      byJob.set(entry.jobId, [...(byJob.get(entry.jobId) || []), entry]);
+    }
+
+    const lastServed = (jobId: string) => lane.lastServed.get(jobId) ?? -1;
+    const jobs = Array.from(byJob.values())
+      .sort((a, b) => lastServed(a[0].jobId) - lastServed(b[0].jobId) || a[0].seq - b[0].seq);
+
+    const order: WaitingEntry[] = [];
+    for (let round = 0; order.length < lane.waiting.length; round++) {
+      for (const calls of jobs) {
+        if (round < calls.length) order.push(calls[round]);
+      }
+    }
+    return order;
+  }
+
+  private reportPositions(provider: string, lane: ProviderLane): void {
+    this.schedulingOrder(lane).forEach((entry, index) => {
+      const position = index + 1;
+      if (entry.lastReportedPosition === position) return;
+      entry.lastReportedPosition = position;
+      entry.onPosition?.({
+        provider,
+        position,
+        waiting: lane.waiting.length,
+        active: lane.active.size,
+        maxConcurrency: lane.maxConcurrency
+      });
+    });
+  }
+}
@@ -1,5 +1,14 @@
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
+import { randomUUID } from "crypto";
+import type { GenerationParams, ProviderConfig, ProviderProbe, ProviderStats, ResolvedGeneration } from "@shared/schema";
+import { ProviderRegistry } from "./providerRegistry";
+import { CassetteStore, type CassetteKey } from "./cassetteStore";
+import { LLMCallQueue, type QueuePosition } from "./llmCallQueue";
+import { UsageMeter } from "./usageMeter";
+import { readSSEData } from "../utils/sseParser";
+import { sleep } from "../utils/abort";
+import { estimateTokens } from "../utils/tokenEstimate";
 
 /*
 <important_code_snippet_instructions>
@@ -16,34 +25,108 @@ const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
 // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
 const DEFAULT_OPENAI_MODEL = "gpt-5";
 
-export class LLMService {
-  private openai: OpenAI;
-  private anthropic: Anthropic;
+const PROBE_PROMPT = "Reply with the word OK.";
+const PROBE_MAX_TOKENS = 16;
+const PROBE_TIMEOUT_MS = 15000;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || process.env.ZHI1_API_KEY || "default_key"
-    });
+export interface RetryInfo {
+  provider: string;
+  attempt: number; // 1-based number of the attempt that just failed
+  maxAttempts: number;
+  delayMs: number;
+  status?: number;
+  error: string;
+}
 
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || process.env.ZHI2_API_KEY || "default_key"
-    });
+export interface FailoverInfo {
+  failedProvider: string;
+  nextProvider: string;
+  error: string;
+}
+
+// JSON Schema the response should follow; name identifies it to the provider
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMCallOptions {
+  // Streaming callers should discard any text received before a retry or failover
+  onRetry?: (info: RetryInfo) => void;
+  onFailover?: (info: FailoverInfo) => void;
+  // Per-request overrides of the provider's configured model and limits
+  generation?: GenerationParams;
+  // Aborts the in-flight request and suppresses further retries and failover
+  signal?: AbortSignal;
+  // Identify the job in the shared call queue; onQueued reports each change in queue position
+  jobId?: string;
+  jobLabel?: string;
+  onQueued?: (info: QueuePosition) => void;
+  // Attached to the usage record of every call
+  usageTags?: { analysisId?: string; mode?: string };
+  // Constrain the output to this schema where the provider supports it; the text is then the JSON document
+  responseSchema?: ResponseSchema;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  generation: ResolvedGeneration;
+  // The provider was asked to enforce options.responseSchema
+  structured: boolean;
+}
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Text of one provider response, with token counts when the provider reports them
+interface Completion {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable: boolean = false,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
   }
+}
+
+export class LLMService {
+  private openaiClients: Map<string, OpenAI> = new Map();
+  private anthropicClients: Map<string, Anthropic> = new Map();
+  private stats: Map<string, ProviderStats> = new Map();
+
+  constructor(
+    private registry: ProviderRegistry,
+    private cassettes?: CassetteStore,
+    private queue?: LLMCallQueue,
+    private usageMeter?: UsageMeter
+  ) {}
 
-  async callLLM(provider: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async callLLM(provider: string, prompt: string, systemPrompt?: string, options: LLMCallOptions = {}): Promise<string> {
     try {
-      switch (provider) {
-        case "zhi1": // OpenAI
-          return await this.callOpenAI(prompt, systemPrompt);
-        case "zhi2": // Anthropic
-          return await this.callAnthropic(prompt, systemPrompt);
-        case "zhi3": // DeepSeek
-          return await this.callDeepSeek(prompt, systemPrompt);
-        case "zhi4": // Perplexity
-          return await this.callPerplexity(prompt, systemPrompt);
-        default:
-          throw new Error(`Unknown LLM provider: ${provider}`);
+      const config = this.registry.require(provider);
+      const generation = this.resolveGeneration(config, options.generation);
+      const responseSchema = this.responseSchemaFor(config, options);
+      const cassetteKey: CassetteKey = { provider, model: generation.model, systemPrompt, prompt, responseFormat: responseSchema?.name };
+      options.signal?.throwIfAborted();
+      if (this.cassettes?.mode === "replay") {
+        return (await this.cassettes.load(cassetteKey)).response;
       }
+
+      const { text: response } = await this.withRetry(config, () =>
+        this.metered(config, generation, prompt, systemPrompt, options, () => this.requestCompletion(config, prompt, systemPrompt, generation, options.signal, responseSchema)), options
+      );
+      await this.recordCassette(cassetteKey, response);
+      return response;
     } catch (error) {
       console.error(`LLM call failed for ${provider}:`, error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -51,20 +134,36 @@ export class LLMService {
     }
   }
 
-  async callLLMWithStreaming(provider: string, prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string): Promise<string> {
+  async callLLMWithStreaming(provider: string, prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string, options: LLMCallOptions = {}): Promise<string> {
     try {
-      switch (provider) {
-        case "zhi1": // OpenAI
-          return await this.callOpenAIStreaming(prompt, onChunk, systemPrompt);
-        case "zhi2": // Anthropic
-          return await this.callAnthropicStreaming(prompt, onChunk, systemPrompt);
-        case "zhi3": // DeepSeek
-          return await this.callDeepSeekStreaming(prompt, onChunk, systemPrompt);
-        case "zhi4": // Perplexity
-          return await this.callPerplexityStreaming(prompt, onChunk, systemPrompt);
-        default:
-          throw new Error(`Unknown LLM provider: ${provider}`);
+      const config = this.registry.require(provider);
+      const generation = this.resolveGeneration(config, options.generation);
+      const responseSchema = this.responseSchemaFor(config, options);
+      const cassetteKey: CassetteKey = { provider, model: generation.model, systemPrompt, prompt, responseFormat: responseSchema?.name };
+      options.signal?.throwIfAborted();
+      if (this.cassettes?.mode === "replay") {
+        const cassette = await this.cassettes.load(cassetteKey);
+        return await this.replayChunks(cassette.chunks || cassette.response.split(/(?<= )/), onChunk, options.signal);
       }
+
+      if (!config.streaming) {
+        const { text: response } = await this.withRetry(config, () =>
+          this.metered(config, generation, prompt, systemPrompt, options, () => this.requestCompletion(config, prompt, systemPrompt, generation, options.signal, responseSchema)), options
+        );
+        await this.recordCassette(cassetteKey, response);
+        return await this.simulateStreaming(response, onChunk, options.signal);
+      }
+
+      // Chunks from a failed attempt are discarded along with the attempt
+      let chunks: string[] = [];
+      const { text: response } = await this.withRetry(config, () => {
+        chunks = [];
+        return this.metered(config, generation, prompt, systemPrompt, options,
+          () => this.requestStreamingCompletion(config, prompt, chunk => { chunks.push(chunk); onChunk(chunk); }, systemPrompt, generation, options.signal, responseSchema),
+          () => chunks.join(""));
+      }, options);
+      await this.recordCassette(cassetteKey, response, chunks);
+      return response;
     } catch (error) {
       console.error(`LLM streaming call failed for ${provider}:`, error);
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -72,7 +171,378 @@ export class LLMService {
     }
   }
 
-  private async callOpenAI(prompt: string, systemPrompt?: string): Promise<string> {
+  get replaying(): boolean {
+    return this.cassettes?.mode === "replay";
+  }
+
+  // Outcome of every attempt against the provider since startup, including probes
+  getStats(provider: string): ProviderStats {
+    return this.stats.get(provider) ?? { calls: 0, failures: 0 };
+  }
+
+  // One tiny non-streaming request with no retries; reports the outcome instead of throwing
+  async probe(provider: string): Promise<ProviderProbe> {
+    const config = this.registry.require(provider);
+    const generation = this.resolveGeneration(config, { maxTokens: PROBE_MAX_TOKENS });
+    const startedAt = Date.now();
+
+    try {
+      await this.metered(config, generation, PROBE_PROMPT, undefined, { usageTags: { mode: "probe" } }, () =>
+        this.requestCompletion(config, PROBE_PROMPT, undefined, generation, AbortSignal.timeout(PROBE_TIMEOUT_MS))
+      );
+      const latencyMs = Date.now() - startedAt;
+      this.recordSuccess(config.id, latencyMs);
+      return { ok: true, latencyMs, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      const providerError = this.toProviderError(config, error);
+      this.recordFailure(config.id, providerError);
+      return { ok: false, latencyMs: Date.now() - startedAt, error: providerError.message, checkedAt: new Date().toISOString() };
+    }
+  }
+
+  // Tries each provider in order, moving on only once a provider has exhausted its retries
+  // A model override only applies to the first provider; fallbacks run their configured model
+  async callLLMWithFailover(providers: string[], prompt: string, systemPrompt?: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    return await this.withFailover(providers, options, (provider, callOptions) => this.callLLM(provider, prompt, systemPrompt, callOptions));
+  }
+
+  async callLLMWithStreamingFailover(providers: string[], prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    return await this.withFailover(providers, options, (provider, callOptions) => this.callLLMWithStreaming(provider, prompt, onChunk, systemPrompt, callOptions));
+  }
+
+  private async withFailover(
+    providers: string[],
+    options: LLMCallOptions,
+    call: (provider: string, callOptions: LLMCallOptions) => Promise<string>
+  ): Promise<LLMResponse> {
+    if (providers.length === 0) {
+      throw new Error("No LLM providers given");
+    }
+
+    const failures: string[] = [];
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+      const callOptions = i === 0 ? options : { ...options, generation: { ...options.generation, model: undefined } };
+      try {
+        const text = await call(provider, callOptions);
+        const config = this.registry.require(provider);
+        return {
+          text,
+          provider,
+          generation: this.resolveGeneration(config, callOptions.generation),
+          structured: this.responseSchemaFor(config, callOptions) !== undefined
+        };
+      } catch (error) {
+        // Without a fallback chain the original error is the most useful one
+        if (providers.length === 1 || options.signal?.aborted) throw error;
+
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        failures.push(`${provider}: ${errorMessage}`);
+
+        if (i < providers.length - 1) {
+          console.warn(`Provider ${provider} failed, failing over to ${providers[i + 1]}: ${errorMessage}`);
+          options.onFailover?.({ failedProvider: provider, nextProvider: providers[i + 1], error: errorMessage });
+        }
+      }
+    }
+
+    throw new Error(`All providers failed (${failures.join('; ')})`);
+  }
+
+  private async withRetry<T>(config: ProviderConfig, operation: () => Promise<T>, options: LLMCallOptions): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = config.retry;
+    const maxAttempts = maxRetries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      // The slot is held for a single attempt, never across the backoff delay
+      const release = await this.acquireSlot(config, options);
+      const startedAt = Date.now();
+      try {
+        const result = await operation();
+        release();
+        this.recordSuccess(config.id, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        release();
+        if (options.signal?.aborted) throw error;
+        const providerError = this.toProviderError(config, error);
+        this.recordFailure(config.id, providerError);
+
+        // A requested wait above the retry cap fails now, so a fallback provider can take over
+        const waitTooLong = providerError.retryAfterMs !== undefined && providerError.retryAfterMs > maxDelayMs;
+        if (!providerError.retryable || attempt >= maxAttempts || waitTooLong) {
+          if (attempt === 1 && !waitTooLong) throw providerError;
+          const reason = waitTooLong
+            ? `provider asked to wait ${Math.ceil(providerError.retryAfterMs! / 1000)}s, above the ${Math.ceil(maxDelayMs / 1000)}s retry limit`
+            : `gave up after ${attempt} attempts`;
+          throw new LLMProviderError(
+            `${providerError.message} (${reason})`,
+            providerError.status,
+            providerError.retryable,
+            providerError.retryAfterMs
+          );
+        }
+
+        // Exponential backoff with full jitter, unless the provider told us how long to wait
+        const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        const delayMs = providerError.retryAfterMs ?? Math.round(Math.random() * backoffMs);
+
+        console.warn(`${config.label} attempt ${attempt}/${maxAttempts} failed (${providerError.message}); retrying in ${delayMs}ms`);
+        options.onRetry?.({
+          provider: config.id,
+          attempt,
+          maxAttempts,
+          delayMs,
+          status: providerError.status,
+          error: providerError.message
+        });
+
+        await sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  // Records tokens, latency and cost of one attempt, successful or not; partialText is what a streamed
+  // attempt produced before it failed
+  private async metered(
+    config: ProviderConfig,
+    generation: ResolvedGeneration,
+    prompt: string,
+    systemPrompt: string | undefined,
+    options: LLMCallOptions,
+    call: () => Promise<Completion>,
+    partialText: () => string = () => ""
+  ): Promise<Completion> {
+    const startedAt = Date.now();
+    const record = (ok: boolean, usage: TokenUsage, tokensEstimated: boolean, error?: string) => this.usageMeter?.record({
+      at: new Date().toISOString(),
+      provider: config.id,
+      model: generation.model,
+      mode: options.usageTags?.mode,
+      analysisId: options.usageTags?.analysisId,
+      ...usage,
+      tokensEstimated,
+      latencyMs: Date.now() - startedAt,
+      cost: this.registry.priceCall(config, generation.model, usage.inputTokens, usage.outputTokens),
+      ok,
+      error
+    });
+
+    const estimateUsage = (text: string): TokenUsage => ({
+      inputTokens: estimateTokens(prompt) + (systemPrompt ? estimateTokens(systemPrompt) : 0),
+      outputTokens: estimateTokens(text)
+    });
+
+    try {
+      const completion = await call();
+      await record(true, completion.usage ?? estimateUsage(completion.text), !completion.usage);
+      return completion;
+    } catch (error) {
+      // The provider reports no usage for a failed attempt; one that already streamed output was
+      // billed, so its tokens are estimated, otherwise it is logged without tokens
+      const partial = partialText();
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      await record(false, partial ? estimateUsage(partial) : { inputTokens: 0, outputTokens: 0 }, partial !== "", errorMessage);
+      throw error;
+    }
+  }
+
+  private async acquireSlot(config: ProviderConfig, options: LLMCallOptions): Promise<() => void> {
+    if (!this.queue) return () => {};
+    return await this.queue.acquire(config.id, {
+      jobId: options.jobId ?? randomUUID(),
+      label: options.jobLabel ?? config.label,
+      signal: options.signal,
+      onPosition: options.onQueued
+    });
+  }
+
+  private recordSuccess(provider: string, latencyMs: number): void {
+    const stats = this.getStats(provider);
+    const successes = stats.calls - stats.failures;
+    this.stats.set(provider, {
+      ...stats,
+      calls: stats.calls + 1,
+      lastLatencyMs: latencyMs,
+      averageLatencyMs: Math.round(((stats.averageLatencyMs ?? 0) * successes + latencyMs) / (successes + 1)),
+      lastSuccessAt: new Date().toISOString()
+    });
+  }
+
+  private recordFailure(provider: string, error: LLMProviderError): void {
+    const stats = this.getStats(provider);
+    this.stats.set(provider, {
+      ...stats,
+      calls: stats.calls + 1,
+      failures: stats.failures + 1,
+      lastError: { message: error.message, status: error.status, at: new Date().toISOString() }
+    });
+  }
+
+  private toProviderError(config: ProviderConfig, error: unknown): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    if (error instanceof OpenAI.APIError || error instanceof Anthropic.APIError) {
+      if (error.status === undefined) {
+        // APIConnectionError and APIConnectionTimeoutError carry no status
+        return new LLMProviderError(`${config.label} connection error: ${error.message}`, undefined, true);
+      }
+      return new LLMProviderError(
+        `${config.label} API error: ${error.message}`,
+        error.status,
+        this.isRetryableStatus(error.status),
+        this.parseRetryAfter(error.headers)
+      );
+    }
+
+    // fetch() rejects with a TypeError on network failures
+    const code = (error as any)?.cause?.code || (error as any)?.code;
+    if (error instanceof TypeError || ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "UND_ERR_SOCKET"].includes(code)) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return new LLMProviderError(`${config.label} connection error: ${errorMessage}${code ? ` (${code})` : ""}`, undefined, true);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new LLMProviderError(errorMessage);
+  }
+
+  // Rate limits, timeouts and server-side failures are worth retrying; auth and invalid requests are not
+  private isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  private parseRetryAfter(headers: unknown): number | undefined {
+    if (!headers) return undefined;
+    const get = (name: string): string | null | undefined =>
+      typeof (headers as any).get === "function" ? (headers as any).get(name) : (headers as any)[name];
+
+    // OpenAI-style millisecond header takes precedence over the standard one
+    const retryAfterMs = get("retry-after-ms");
+    if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) {
+      return Math.max(0, Number(retryAfterMs));
+    }
+
+    const retryAfter = get("retry-after");
+    if (!retryAfter) return undefined;
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // The schema to send, or undefined when the provider has no way to enforce one
+  private responseSchemaFor(config: ProviderConfig, options: LLMCallOptions): ResponseSchema | undefined {
+    if (!options.responseSchema || this.registry.structuredOutputMethod(config) === "none") return undefined;
+    return options.responseSchema;
+  }
+
+  resolveGenerationFor(provider: string, params: GenerationParams = {}): ResolvedGeneration {
+    return this.resolveGeneration(this.registry.require(provider), params);
+  }
+
+  resolveGeneration(config: ProviderConfig, params: GenerationParams = {}): ResolvedGeneration {
+    const defaultModel = config.api === "anthropic" ? DEFAULT_ANTHROPIC_MODEL : DEFAULT_OPENAI_MODEL;
+    return {
+      model: params.model || config.model || defaultModel,
+      maxTokens: params.maxTokens ?? config.maxOutputTokens,
+      temperature: params.temperature,
+      seed: params.seed
+    };
+  }
+
+  private async requestCompletion(config: ProviderConfig, prompt: string, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    switch (config.api) {
+      case "openai":
+        return await this.callOpenAI(config, prompt, systemPrompt, generation, signal, responseSchema);
+      case "anthropic":
+        return await this.callAnthropic(config, prompt, systemPrompt, generation, signal, responseSchema);
+      case "openai-compatible":
+        return await this.callOpenAICompatible(config, prompt, systemPrompt, generation, signal, responseSchema);
+      default:
+        throw new Error(`Unsupported API type for ${config.id}: ${config.api}`);
+    }
+  }
+
+  private async requestStreamingCompletion(config: ProviderConfig, prompt: string, onChunk: (chunk: string) => void, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    switch (config.api) {
+      case "openai":
+        return await this.callOpenAIStreaming(config, prompt, onChunk, systemPrompt, generation, signal, responseSchema);
+      case "anthropic":
+        return await this.callAnthropicStreaming(config, prompt, onChunk, systemPrompt, generation, signal, responseSchema);
+      case "openai-compatible":
+        return await this.callOpenAICompatibleStreaming(config, prompt, onChunk, systemPrompt, generation, signal, responseSchema);
+      default:
+        throw new Error(`Unsupported API type for ${config.id}: ${config.api}`);
+    }
+  }
+
+  // Undefined only for providers that need no key (requiresApiKey: false); a missing required key fails here
+  // instead of reaching the provider as a bogus credential
+  private getApiKey(config: ProviderConfig): string | undefined {
+    const apiKey = this.registry.resolveApiKey(config);
+    if (!apiKey && config.requiresApiKey) {
+      throw new LLMProviderError(`No API key for ${config.label}${config.apiKeyEnv.length > 0 ? `: set ${config.apiKeyEnv.join(" or ")}` : ""}`);
+    }
+    return apiKey;
+  }
+
+  private getOpenAIClient(config: ProviderConfig): OpenAI {
+    let client = this.openaiClients.get(config.id);
+    if (!client) {
+      // Retries are handled by withRetry so they can be reported to the client
+      client = new OpenAI({ apiKey: this.getApiKey(config) ?? "", baseURL: config.baseUrl, maxRetries: 0 });
+      this.openaiClients.set(config.id, client);
+    }
+    return client;
+  }
+
+  private getAnthropicClient(config: ProviderConfig): Anthropic {
+    let client = this.anthropicClients.get(config.id);
+    if (!client) {
+      client = new Anthropic({ apiKey: this.getApiKey(config) ?? null, baseURL: config.baseUrl, maxRetries: 0 });
+      this.anthropicClients.set(config.id, client);
+    }
+    return client;
+  }
+
+  // Only send sampling settings that were requested, so provider defaults apply otherwise
+  private samplingParams(generation: ResolvedGeneration): { temperature?: number; seed?: number } {
+    return {
+      ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
+      ...(generation.seed !== undefined ? { seed: generation.seed } : {})
+    };
+  }
+
+  // response_format for OpenAI-style APIs; json_object only guarantees valid JSON, not the schema
+  private responseFormatParams(config: ProviderConfig, responseSchema?: ResponseSchema): { response_format?: any } {
+    if (!responseSchema) return {};
+    if (this.registry.structuredOutputMethod(config) === "json_object") {
+      return { response_format: { type: "json_object" } };
+    }
+    return { response_format: { type: "json_schema", json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true } } };
+  }
+
+  // Anthropic has no response_format; forcing a single tool call makes its arguments the structured output
+  private anthropicToolParams(responseSchema?: ResponseSchema): { tools?: any[]; tool_choice?: any } {
+    if (!responseSchema) return {};
+    return {
+      tools: [{ name: responseSchema.name, description: "Submit the completed response", input_schema: responseSchema.schema }],
+      tool_choice: { type: "tool", name: responseSchema.name }
+    };
+  }
+
+  private openAIUsage(usage: { prompt_tokens?: number; completion_tokens?: number } | null | undefined): TokenUsage | undefined {
+    if (!usage || usage.prompt_tokens === undefined || usage.completion_tokens === undefined) return undefined;
+    return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+  }
+
+  private buildMessages(prompt: string, systemPrompt?: string): any[] {
     const messages: any[] = [];
     
     if (systemPrompt) {
@@ -80,55 +550,64 @@ export class LLMService {
     }
     
     messages.push({ role: "user", content: prompt });
+    return messages;
+  }
 
-    const response = await this.openai.chat.completions.create({
-      model: DEFAULT_OPENAI_MODEL,
-      messages,
-      max_completion_tokens: 4000
-    });
+  private async callOpenAI(config: ProviderConfig, prompt: string, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const response = await this.getOpenAIClient(config).chat.completions.create({
+      model: generation.model,
+      messages: this.buildMessages(prompt, systemPrompt),
+      [config.maxTokensParam]: generation.maxTokens,
+      ...this.samplingParams(generation),
+      ...this.responseFormatParams(config, responseSchema)
+    }, { signal });
 
-    return response.choices[0].message.content || "";
+    return { text: response.choices[0].message.content || "", usage: this.openAIUsage(response.usage) };
   }
 
-  private async callAnthropicStreaming(prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string): Promise<string> {
-    const stream = await this.anthropic.messages.create({
-      model: DEFAULT_ANTHROPIC_MODEL,
-      max_tokens: 8000,
+  private async callAnthropicStreaming(config: ProviderConfig, prompt: string, onChunk: (chunk: string) => void, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const stream = await this.getAnthropicClient(config).messages.create({
+      model: generation.model,
+      max_tokens: generation.maxTokens,
+      ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
       messages: [{ role: "user", content: prompt }],
       system: systemPrompt || undefined,
+      ...this.anthropicToolParams(responseSchema),
       stream: true
-    });
+    }, { signal });
 
     let fullResponse = "";
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
     
     for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-        const text = chunk.delta.text;
+      if (chunk.type === 'content_block_delta' && (chunk.delta.type === 'text_delta' || chunk.delta.type === 'input_json_delta')) {
+        // A forced tool call streams its arguments as JSON fragments
+        const text = chunk.delta.type === 'text_delta' ? chunk.delta.text : chunk.delta.partial_json;
         fullResponse += text;
         onChunk(text);
+      } else if (chunk.type === 'message_start') {
+        usage.inputTokens = chunk.message.usage.input_tokens;
+      } else if (chunk.type === 'message_delta') {
+        usage.outputTokens = chunk.usage.output_tokens;
       }
     }
     
-    return fullResponse;
+    return { text: fullResponse, usage };
   }
 
-  private async callOpenAIStreaming(prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string): Promise<string> {
-    const messages: any[] = [];
-    
-    if (systemPrompt) {
-      messages.push({ role: "system", content: systemPrompt });
-    }
-    
-    messages.push({ role: "user", content: prompt });
-
-    const stream = await this.openai.chat.completions.create({
-      model: DEFAULT_OPENAI_MODEL,
-      messages,
-      max_completion_tokens: 4000,
-      stream: true
-    });
+  private async callOpenAIStreaming(config: ProviderConfig, prompt: string, onChunk: (chunk: string) => void, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const stream = await this.getOpenAIClient(config).chat.completions.create({
+      model: generation.model,
+      messages: this.buildMessages(prompt, systemPrompt),
+      [config.maxTokensParam]: generation.maxTokens,
+      ...this.samplingParams(generation),
+      ...this.responseFormatParams(config, responseSchema),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal });
 
     let fullResponse = "";
+    let usage: TokenUsage | undefined;
     
     for await (const chunk of stream) {
       const text = chunk.choices[0]?.delta?.content || "";
@@ -136,35 +615,37 @@ export class LLMService {
         fullResponse += text;
         onChunk(text);
       }
+      // Usage arrives on a final chunk with no choices
+      usage = this.openAIUsage(chunk.usage) ?? usage;
     }
     
-    return fullResponse;
+    return { text: fullResponse, usage };
   }
 
-  private async callDeepSeekStreaming(prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string): Promise<string> {
-    // For now, fallback to non-streaming and simulate streaming
-    const response = await this.callDeepSeek(prompt, systemPrompt);
-    
-    // Simulate streaming by sending chunks
-    const words = response.split(' ');
+  private async recordCassette(key: CassetteKey, response: string, chunks?: string[]): Promise<void> {
+    if (this.cassettes?.mode !== "record") return;
+    try {
+      await this.cassettes.save(key, response, chunks);
+    } catch (error) {
+      // A paid response is still returned even if it could not be recorded
+      console.error(`Failed to record cassette for ${key.provider}:`, error);
+    }
+  }
+
+  // Replays recorded chunks without artificial delays, yielding so each one is flushed to the client
+  private async replayChunks(chunks: string[], onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
     let fullResponse = "";
-    
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i] + (i < words.length - 1 ? ' ' : '');
-      fullResponse += word;
-      onChunk(word);
-      // Small delay to simulate streaming
-      await new Promise(resolve => setTimeout(resolve, 50));
+    for (const chunk of chunks) {
+      signal?.throwIfAborted();
+      fullResponse += chunk;
+      onChunk(chunk);
+      await new Promise(resolve => setImmediate(resolve));
     }
-    
     return fullResponse;
   }
 
-  private async callPerplexityStreaming(prompt: string, onChunk: (chunk: string) => void, systemPrompt?: string): Promise<string> {
-    // For now, fallback to non-streaming and simulate streaming
-    const response = await this.callPerplexity(prompt, systemPrompt);
-    
-    // Simulate streaming by sending chunks
+  // Providers without native streaming still feed the live display, one word at a time
+  private async simulateStreaming(response: string, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<string> {
     const words = response.split(' ');
     let fullResponse = "";
     
@@ -173,86 +654,106 @@ export class LLMService {
       fullResponse += word;
       onChunk(word);
       // Small delay to simulate streaming
-      await new Promise(resolve => setTimeout(resolve, 50));
+      await sleep(50, signal);
     }
     
     return fullResponse;
   }
 
-  private async callAnthropic(prompt: string, systemPrompt?: string): Promise<string> {
-    const response = await this.anthropic.messages.create({
-      model: DEFAULT_ANTHROPIC_MODEL,
-      max_tokens: 8000, // Increased to prevent truncation
+  private async callAnthropic(config: ProviderConfig, prompt: string, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const response = await this.getAnthropicClient(config).messages.create({
+      model: generation.model,
+      max_tokens: generation.maxTokens,
+      ...(generation.temperature !== undefined ? { temperature: generation.temperature } : {}),
       system: systemPrompt || "",
-      messages: [{ role: "user", content: prompt }]
-    });
+      messages: [{ role: "user", content: prompt }],
+      ...this.anthropicToolParams(responseSchema)
+    }, { signal });
 
-    return response.content[0].type === "text" ? response.content[0].text : "";
+    const toolUse = response.content.find(block => block.type === "tool_use");
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : response.content[0]?.type === "text" ? response.content[0].text : "",
+      usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens }
+    };
   }
 
-  private async callDeepSeek(prompt: string, systemPrompt?: string): Promise<string> {
-    // DeepSeek API compatible with OpenAI format
-    const deepseekApiKey = process.env.DEEPSEEK_API_KEY || process.env.ZHI3_API_KEY || "default_key";
-    
-    const messages: any[] = [];
-    if (systemPrompt) {
-      messages.push({ role: "system", content: systemPrompt });
+  // DeepSeek, Perplexity and other APIs that accept the OpenAI chat/completions format
+  private async callOpenAICompatible(config: ProviderConfig, prompt: string, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const response = await this.postChatCompletion(config, prompt, systemPrompt, generation, false, signal, responseSchema);
+    const data = await response.json();
+    return { text: data.choices[0].message.content || "", usage: this.openAIUsage(data.usage) };
+  }
+
+  private async callOpenAICompatibleStreaming(config: ProviderConfig, prompt: string, onChunk: (chunk: string) => void, systemPrompt: string | undefined, generation: ResolvedGeneration, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Completion> {
+    const response = await this.postChatCompletion(config, prompt, systemPrompt, generation, true, signal, responseSchema);
+    if (!response.body) {
+      throw new Error(`${config.label} API returned no response body`);
     }
-    messages.push({ role: "user", content: prompt });
 
-    const response = await fetch("https://api.deepseek.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${deepseekApiKey}`
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages,
-        max_completion_tokens: 4000
-      })
-    });
+    let fullResponse = "";
+    let usage: TokenUsage | undefined;
 
-    if (!response.ok) {
-      throw new Error(`DeepSeek API error: ${response.status}`);
+    for await (const data of readSSEData(response.body)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        console.warn(`${config.label} sent a non-JSON stream event: ${data.substring(0, 200)}`);
+        continue;
+      }
+
+      if (event.error) {
+        throw new Error(`${config.label} stream error: ${event.error.message || JSON.stringify(event.error)}`);
+      }
+
+      const text = event.choices?.[0]?.delta?.content || "";
+      if (text) {
+        fullResponse += text;
+        onChunk(text);
+      }
+      // Servers that report usage do so on the last event(s)
+      usage = this.openAIUsage(event.usage) ?? usage;
     }
 
-    const data = await response.json();
-    return data.choices[0].message.content || "";
+    return { text: fullResponse, usage };
   }
 
-  private async callPerplexity(prompt: string, systemPrompt?: string): Promise<string> {
-    const perplexityApiKey = process.env.PERPLEXITY_API_KEY || process.env.ZHI4_API_KEY || "default_key";
-    
-    const messages: any[] = [];
-    if (systemPrompt) {
-      messages.push({ role: "system", content: systemPrompt });
+  private async postChatCompletion(config: ProviderConfig, prompt: string, systemPrompt: string | undefined, generation: ResolvedGeneration, stream: boolean, signal?: AbortSignal, responseSchema?: ResponseSchema): Promise<Response> {
+    if (!config.baseUrl) {
+      throw new Error(`Provider ${config.id} has no baseUrl configured`);
     }
-    messages.push({ role: "user", content: prompt });
 
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
+    const apiKey = this.getApiKey(config);
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "Authorization": `Bearer ${perplexityApiKey}`
+        ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+        ...(stream ? { "Accept": "text/event-stream" } : {})
       },
       body: JSON.stringify({
-        model: "sonar-pro",
-        messages,
-        max_tokens: 4000,
-        stream: false,
-        return_images: false,
-        return_related_questions: false
-      })
+        model: generation.model,
+        messages: this.buildMessages(prompt, systemPrompt),
+        [config.maxTokensParam]: generation.maxTokens,
+        ...this.samplingParams(generation),
+        ...this.responseFormatParams(config, responseSchema),
+        ...config.extraBody,
+        stream
+      }),
+      signal
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      console.error(`Perplexity API error: ${response.status} - ${errorText}`);
-      throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
+      console.error(`${config.label} API error: ${response.status} - ${errorText}`);
+      throw new LLMProviderError(
+        `${config.label} API error: ${response.status} - ${errorText}`,
+        response.status,
+        this.isRetryableStatus(response.status),
+        this.parseRetryAfter(response.headers)
+      );
     }
 
-    const data = await response.json();
-    return data.choices[0].message.content || "";
+    return response;
   }
 }
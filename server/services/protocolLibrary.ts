@@ -0,0 +1,143 @@
+import { readdirSync, readFileSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import {
+  protocolSchema,
+  type Protocol,
+  type ProtocolModeType,
+  type ProtocolRef,
+  type ProtocolSummary,
+  type ProtocolVersion,
+  type SaveProtocol
+} from "@shared/schema";
+
+const DEFAULT_PROTOCOLS_DIR = "protocols";
+
+export interface ResolvedProtocol extends ProtocolVersion {
+  id: string;
+}
+
+// Versioned analysis protocols (questions, system prompt, instructions, addenda, exemplars), one JSON file
+// per protocol in PROTOCOLS_DIR. Saving appends a version, so every result can name the exact text it used.
+export class ProtocolLibrary {
+  private protocols: Map<string, Protocol> = new Map();
+  // Saves are written one at a time so two edits never get the same version number
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(protocols: Protocol[], private directory: string | null = null) {
+    for (const protocol of protocols) {
+      if (this.protocols.has(protocol.id)) {
+        throw new Error(`Duplicate protocol id: ${protocol.id}`);
+      }
+      this.protocols.set(protocol.id, protocol);
+    }
+  }
+
+  // Reads every protocol file in PROTOCOLS_DIR (or ./protocols); edits are saved back there
+  static loadFromDirectory(directory: string = process.env.PROTOCOLS_DIR || DEFAULT_PROTOCOLS_DIR): ProtocolLibrary {
+    const resolvedDir = path.resolve(process.cwd(), directory);
+    const protocols = readdirSync(resolvedDir).filter(file => file.endsWith(".json")).map(file => {
+      const filePath = path.join(resolvedDir, file);
+      let raw: unknown;
+      try {
+        raw = JSON.parse(readFileSync(filePath, "utf-8"));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to read protocol ${filePath}: ${errorMessage}`);
+      }
+
+      const parsed = protocolSchema.safeParse(raw);
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new Error(`Invalid protocol ${filePath}: ${issues}`);
+      }
+      return parsed.data;
+    });
+
+    return new ProtocolLibrary(protocols, resolvedDir);
+  }
+
+  // The protocol a mode uses when the request names none
+  static defaultIdFor(mode: string): string {
+    return ProtocolLibrary.modeTypeOf(mode);
+  }
+
+  static modeTypeOf(mode: string): ProtocolModeType {
+    return mode === "meta-analysis" ? "meta-analysis" : mode.split("-")[0] as ProtocolModeType;
+  }
+
+  list(): ProtocolSummary[] {
+    return Array.from(this.protocols.values()).map(protocol => {
+      const latest = protocol.versions[protocol.versions.length - 1];
+      return {
+        id: protocol.id,
+        name: latest.name,
+        description: latest.description,
+        modeType: latest.modeType,
+        latestVersion: latest.version,
+        updatedAt: latest.createdAt
+      };
+    });
+  }
+
+  get(id: string): Protocol | undefined {
+    return this.protocols.get(id);
+  }
+
+  // Describes why the protocol cannot be used for the mode; undefined when it can
+  check(mode: string, id?: string, version?: number): string | undefined {
+    const found = this.lookup(mode, id, version);
+    return typeof found === "string" ? found : undefined;
+  }
+
+  // The requested version, or the latest one, of the requested protocol or the mode's default
+  resolve(mode: string, id?: string, version?: number): ResolvedProtocol {
+    const found = this.lookup(mode, id, version);
+    if (typeof found === "string") {
+      throw new Error(found);
+    }
+    return found;
+  }
+
+  private lookup(mode: string, id: string = ProtocolLibrary.defaultIdFor(mode), version?: number): ResolvedProtocol | string {
+    const protocol = this.protocols.get(id);
+    if (!protocol) {
+      return `Unknown protocol: ${id}`;
+    }
+
+    const selected = version === undefined ? protocol.versions[protocol.versions.length - 1] : protocol.versions.find(entry => entry.version === version);
+    if (!selected) {
+      return `Protocol ${id} has no version ${version}`;
+    }
+    if (selected.modeType !== ProtocolLibrary.modeTypeOf(mode)) {
+      return `Protocol ${id} is for ${selected.modeType} analyses, not ${mode}`;
+    }
+    return { ...selected, id };
+  }
+
+  static toRef(protocol: ResolvedProtocol): ProtocolRef {
+    return { id: protocol.id, version: protocol.version, name: protocol.name };
+  }
+
+  // Adds a version to the protocol, creating it when the id is new
+  saveVersion(id: string, content: SaveProtocol): Promise<Protocol> {
+    const save = this.writes.then(async () => {
+      const existing = this.protocols.get(id);
+      const version: ProtocolVersion = {
+        ...content,
+        version: existing ? existing.versions[existing.versions.length - 1].version + 1 : 1,
+        createdAt: new Date().toISOString()
+      };
+      const updated = protocolSchema.parse({ id, versions: [...(existing?.versions ?? []), version] });
+
+      if (this.directory) {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(path.join(this.directory, `${id}.json`), JSON.stringify(updated, null, 2) + "\n", "utf-8");
+      }
+      this.protocols.set(id, updated);
+      return updated;
+    });
+    this.writes = save.catch(() => undefined);
+    return save;
+  }
+}
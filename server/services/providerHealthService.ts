@@ -0,0 +1,62 @@
+import type { ProviderInfo, ProviderProbe } from "@shared/schema";
+import { ProviderRegistry } from "./providerRegistry";
+import { LLMService } from "./llmService";
+
+const DEFAULT_PROBE_TTL_MS = 10 * 60 * 1000;
+
+export class ProviderHealthService {
+  private probes: Map<string, ProviderProbe> = new Map();
+  private pendingProbes: Map<string, Promise<ProviderProbe>> = new Map();
+
+  constructor(
+    private registry: ProviderRegistry,
+    private llmService: LLMService,
+    private probeTtlMs: number = Number(process.env.PROVIDER_PROBE_TTL_MS) || DEFAULT_PROBE_TTL_MS
+  ) {}
+
+  // Probes cost a few tokens, so they only run when asked for and results are reused until they go stale
+  async report(options: { probe: boolean; refresh?: boolean } = { probe: false }): Promise<ProviderInfo[]> {
+    const configs = this.registry.list();
+
+    if (options.probe && !this.llmService.replaying) {
+      await Promise.all(configs
+        .filter(config => this.registry.hasCredentials(config))
+        .filter(config => options.refresh || this.isStale(this.probes.get(config.id)))
+        .map(config => this.runProbe(config.id)));
+    }
+
+    return configs.map(config => {
+      const credentialsPresent = this.registry.hasCredentials(config);
+      const probe = this.probes.get(config.id);
+      const unusableReason = !credentialsPresent
+        ? `No API key (set ${config.apiKeyEnv.join(' or ')})`
+        : probe && !probe.ok ? `Probe failed: ${probe.error}` : undefined;
+
+      return {
+        ...this.registry.toPublicInfo(config),
+        credentialsPresent,
+        probe,
+        stats: this.llmService.getStats(config.id),
+        usable: unusableReason === undefined,
+        unusableReason
+      };
+    });
+  }
+
+  private isStale(probe: ProviderProbe | undefined): boolean {
+    return !probe || Date.now() - Date.parse(probe.checkedAt) > this.probeTtlMs;
+  }
+
+  // Concurrent requests share one in-flight probe per provider
+  private runProbe(provider: string): Promise<ProviderProbe> {
+    let pending = this.pendingProbes.get(provider);
+    if (!pending) {
+      pending = this.llmService.probe(provider).then(probe => {
+        this.probes.set(provider, probe);
+        return probe;
+      }).finally(() => this.pendingProbes.delete(provider));
+      this.pendingProbes.set(provider, pending);
+    }
+    return pending;
+  }
+}
@@ -0,0 +1,162 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { providerRegistryConfigSchema, type GenerationParams, type ModelPricing, type ProviderCapabilities, type ProviderConfig } from "@shared/schema";
+
+export type StructuredOutputMethod = NonNullable<ProviderConfig["structuredOutput"]>;
+
+const DEFAULT_CONFIG_PATH = "llm-providers.json";
+
+export class ProviderRegistry {
+  private providers: Map<string, ProviderConfig> = new Map();
+
+  constructor(configs: ProviderConfig[]) {
+    for (const config of configs) {
+      if (this.providers.has(config.id)) {
+        throw new Error(`Duplicate LLM provider id: ${config.id}`);
+      }
+      this.providers.set(config.id, this.applyEnvOverrides(config));
+      this.checkStructuredOutput(config);
+    }
+  }
+
+  // Reads the provider list from LLM_PROVIDERS_CONFIG (or llm-providers.json in the working directory)
+  static loadFromFile(configPath: string = process.env.LLM_PROVIDERS_CONFIG || DEFAULT_CONFIG_PATH): ProviderRegistry {
+    const resolvedPath = path.resolve(process.cwd(), configPath);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(resolvedPath, "utf-8"));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`Failed to read LLM provider config ${resolvedPath}: ${errorMessage}`);
+    }
+
+    const parsed = providerRegistryConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Invalid LLM provider config ${resolvedPath}: ${issues}`);
+    }
+
+    return new ProviderRegistry(parsed.data.providers);
+  }
+
+  ids(): [string, ...string[]] {
+    return Array.from(this.providers.keys()) as [string, ...string[]];
+  }
+
+  list(): ProviderConfig[] {
+    return Array.from(this.providers.values());
+  }
+
+  get(id: string): ProviderConfig | undefined {
+    return this.providers.get(id);
+  }
+
+  require(id: string): ProviderConfig {
+    const config = this.providers.get(id);
+    if (!config) {
+      throw new Error(`Unknown LLM provider: ${id}`);
+    }
+    return config;
+  }
+
+  // First non-empty environment variable named by the provider's apiKeyEnv list
+  resolveApiKey(config: ProviderConfig): string | undefined {
+    for (const envVar of config.apiKeyEnv) {
+      const value = process.env[envVar];
+      if (value) return value;
+    }
+    return undefined;
+  }
+
+  hasCredentials(config: ProviderConfig): boolean {
+    return !config.requiresApiKey || this.resolveApiKey(config) !== undefined;
+  }
+
+  // Describes every generation override the provider cannot honour; empty when all are acceptable
+  checkGenerationParams(config: ProviderConfig, params: GenerationParams, options: { includeModel: boolean }): string[] {
+    const problems: string[] = [];
+
+    if (options.includeModel && params.model && config.allowedModels && !config.allowedModels.includes(params.model)) {
+      problems.push(`${config.label} does not offer model "${params.model}" (allowed: ${config.allowedModels.join(', ')})`);
+    }
+
+    if (params.temperature !== undefined) {
+      if (!config.temperatureRange) {
+        problems.push(`${config.label} does not accept a temperature setting`);
+      } else {
+        const [min, max] = config.temperatureRange;
+        if (params.temperature < min || params.temperature > max) {
+          problems.push(`${config.label} temperature must be between ${min} and ${max}`);
+        }
+      }
+    }
+
+    if (params.maxTokens !== undefined && params.maxTokens > this.getMaxTokensLimit(config)) {
+      problems.push(`${config.label} allows at most ${this.getMaxTokensLimit(config)} output tokens`);
+    }
+
+    if (params.seed !== undefined && !config.supportsSeed) {
+      problems.push(`${config.label} does not support a seed`);
+    }
+
+    return problems;
+  }
+
+  getMaxTokensLimit(config: ProviderConfig): number {
+    return config.maxTokensLimit ?? config.maxOutputTokens;
+  }
+
+  getPricing(config: ProviderConfig, model: string): ModelPricing | undefined {
+    return config.pricing?.[model] ?? config.pricing?.["*"];
+  }
+
+  // USD cost of a call, or undefined when the model has no configured price
+  priceCall(config: ProviderConfig, model: string, inputTokens: number, outputTokens: number): number | undefined {
+    const pricing = this.getPricing(config, model);
+    if (!pricing) return undefined;
+    return (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+  }
+
+  structuredOutputMethod(config: ProviderConfig): StructuredOutputMethod {
+    if (config.structuredOutput) return config.structuredOutput;
+    if (config.api === "openai") return "json_schema";
+    if (config.api === "anthropic") return "tool";
+    return "none";
+  }
+
+  // Anthropic constrains output through a forced tool call, the OpenAI-style APIs through response_format
+  private checkStructuredOutput(config: ProviderConfig): void {
+    const method = this.structuredOutputMethod(config);
+    if (method === "none") return;
+    if ((method === "tool") !== (config.api === "anthropic")) {
+      throw new Error(`LLM provider ${config.id} (${config.api}) does not support structuredOutput "${method}"`);
+    }
+  }
+
+  private applyEnvOverrides(config: ProviderConfig): ProviderConfig {
+    const baseUrl = (config.baseUrlEnv && process.env[config.baseUrlEnv]) || config.baseUrl;
+    const model = (config.modelEnv && process.env[config.modelEnv]) || config.model;
+
+    if (baseUrl && baseUrl !== config.baseUrl && !URL.canParse(baseUrl)) {
+      throw new Error(`Invalid base URL in ${config.baseUrlEnv} for LLM provider ${config.id}: ${baseUrl}`);
+    }
+
+    return { ...config, baseUrl, model };
+  }
+
+  toPublicInfo(config: ProviderConfig): ProviderCapabilities {
+    return {
+      id: config.id,
+      label: config.label,
+      model: config.model,
+      streaming: config.streaming,
+      maxOutputTokens: config.maxOutputTokens,
+      contextWindow: config.contextWindow,
+      allowedModels: config.allowedModels,
+      maxTokensLimit: this.getMaxTokensLimit(config),
+      temperatureRange: config.temperatureRange,
+      supportsSeed: config.supportsSeed
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { AnalysisResult, ResolvedGeneration } from "@shared/schema";
+
+// Bump when the stored result format or response parsing changes so stale entries are ignored
+const CACHE_FORMAT_VERSION = 1;
+const DEFAULT_CACHE_DIR = ".analysis-cache";
+
+export interface ResponseCacheKey {
+  mode: string;
+  provider: string;
+  generation: ResolvedGeneration;
+  systemPrompt?: string;
+  prompt: string;
+  // Long modes only: which scores get challenged in the pushback phase
+  pushbackThreshold?: number;
+}
+
+// Analysis results stored on disk by a hash of everything that determines the LLM's answer
+export class ResponseCache {
+  constructor(private directory: string | null) {}
+
+  // ANALYSIS_CACHE=off disables caching; entries live in ANALYSIS_CACHE_DIR
+  static fromEnv(): ResponseCache {
+    if ((process.env.ANALYSIS_CACHE || "on").toLowerCase() === "off") {
+      return new ResponseCache(null);
+    }
+    return new ResponseCache(path.resolve(process.cwd(), process.env.ANALYSIS_CACHE_DIR || DEFAULT_CACHE_DIR));
+  }
+
+  get enabled(): boolean {
+    return this.directory !== null;
+  }
+
+  hashKey(key: ResponseCacheKey): string {
+    const { model, maxTokens, temperature, seed } = key.generation;
+    return createHash("sha256")
+      .update(JSON.stringify([
+        CACHE_FORMAT_VERSION,
+        key.mode,
+        key.provider,
+        [model, maxTokens, temperature ?? null, seed ?? null],
+        key.systemPrompt || "",
+        key.prompt,
+        key.pushbackThreshold ?? null
+      ]))
+      .digest("hex");
+  }
+
+  async get(key: ResponseCacheKey): Promise<AnalysisResult | undefined> {
+    if (!this.directory) return undefined;
+    try {
+      return JSON.parse(await readFile(this.filePath(this.hashKey(key)), "utf-8")) as AnalysisResult;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Failed to read analysis cache entry:", error);
+      }
+      return undefined;
+    }
+  }
+
+  async set(key: ResponseCacheKey, result: AnalysisResult): Promise<void> {
+    if (!this.directory) return;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(this.hashKey(key)), JSON.stringify(result, null, 2), "utf-8");
+  }
+
+  private filePath(hash: string): string {
+    return path.join(this.directory!, `${hash}.json`);
+  }
+}
@@ -0,0 +1,155 @@
+import { appendFile, mkdir } from "fs/promises";
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { Budget, BudgetStatus, UsageRecord, UsageSummary } from "@shared/schema";
+
+const DEFAULT_USAGE_LOG = ".usage/usage.jsonl";
+const RECENT_LIMIT = 50;
+
+type Period = "day" | "month";
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// Keeps every LLM call's tokens, latency and cost, appending each record to a JSONL log so
+// spending survives restarts
+export class UsageMeter {
+  private records: UsageRecord[] = [];
+  // Set when the log does not end in a newline (e.g. a write cut short), so the next record starts on its own line
+  private endsMidLine = false;
+
+  constructor(
+    private logPath: string | null,
+    private teamBudget: Budget,
+    private providerBudget: (provider: string) => Budget | undefined
+  ) {
+    if (logPath && existsSync(logPath)) {
+      this.load(logPath);
+    }
+  }
+
+  // Unreadable lines are skipped with a warning rather than keeping the server from starting
+  private load(logPath: string): void {
+    const content = readFileSync(logPath, "utf-8");
+    const skipped: number[] = [];
+    content.split("\n").forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        this.records.push(JSON.parse(line) as UsageRecord);
+      } catch {
+        skipped.push(index + 1);
+      }
+    });
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} unreadable usage record(s) in ${logPath} (line${skipped.length === 1 ? "" : "s"} ${skipped.join(", ")})`);
+    }
+    this.endsMidLine = content.length > 0 && !content.endsWith("\n");
+  }
+
+  // USAGE_LOG_PATH sets the log file (USAGE_LOG_PATH=off keeps usage in memory only);
+  // LLM_BUDGET_DAILY_USD / LLM_BUDGET_MONTHLY_USD cap spending across all providers
+  static fromEnv(providerBudget: (provider: string) => Budget | undefined): UsageMeter {
+    const logSetting = process.env.USAGE_LOG_PATH || DEFAULT_USAGE_LOG;
+    const logPath = logSetting === "off" ? null : path.resolve(process.cwd(), logSetting);
+    const teamBudget: Budget = {
+      dailyUsd: UsageMeter.parseBudget("LLM_BUDGET_DAILY_USD"),
+      monthlyUsd: UsageMeter.parseBudget("LLM_BUDGET_MONTHLY_USD")
+    };
+    return new UsageMeter(logPath, teamBudget, providerBudget);
+  }
+
+  private static parseBudget(envVar: string): number | undefined {
+    const raw = process.env[envVar];
+    if (!raw) return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`Invalid ${envVar}: ${raw}`);
+    }
+    return value;
+  }
+
+  async record(entry: UsageRecord): Promise<void> {
+    this.records.push(entry);
+    if (!this.logPath) return;
+    try {
+      await mkdir(path.dirname(this.logPath), { recursive: true });
+      await appendFile(this.logPath, (this.endsMidLine ? "\n" : "") + JSON.stringify(entry) + "\n", "utf-8");
+      this.endsMidLine = false;
+    } catch (error) {
+      console.error("Failed to write usage record:", error);
+    }
+  }
+
+  // Throws before any call is made if the team or any of the given providers has hit a cap
+  assertWithinBudget(providers: string[]): void {
+    const exceeded = this.budgetStatus(providers).filter(status => status.exceeded);
+    if (exceeded.length === 0) return;
+
+    const details = exceeded.map(status =>
+      `${status.scope === "all" ? "team" : status.scope} ${status.period === "day" ? "daily" : "monthly"} budget of $${status.limitUsd.toFixed(2)} reached ($${status.spentUsd.toFixed(2)} spent)`
+    );
+    throw new BudgetExceededError(`Spending cap exceeded: ${details.join('; ')}`);
+  }
+
+  budgetStatus(providers: string[]): BudgetStatus[] {
+    const statuses: BudgetStatus[] = [];
+    const add = (scope: string, budget: Budget | undefined) => {
+      if (budget?.dailyUsd) statuses.push(this.status(scope, "day", budget.dailyUsd));
+      if (budget?.monthlyUsd) statuses.push(this.status(scope, "month", budget.monthlyUsd));
+    };
+
+    add("all", this.teamBudget);
+    providers.forEach(provider => add(provider, this.providerBudget(provider)));
+    return statuses;
+  }
+
+  summarize(granularity: Period, since: Date, providers: string[]): UsageSummary {
+    const buckets = new Map<string, UsageSummary["buckets"][number] & { latencyTotal: number }>();
+
+    for (const record of this.records) {
+      if (Date.parse(record.at) < since.getTime()) continue;
+      const period = this.periodKey(new Date(record.at), granularity);
+      const key = `${period}|${record.provider}`;
+      const bucket = buckets.get(key) ?? {
+        period, provider: record.provider, calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, cost: 0, averageLatencyMs: 0, latencyTotal: 0
+      };
+
+      bucket.calls++;
+      if (!record.ok) bucket.failures++;
+      bucket.inputTokens += record.inputTokens;
+      bucket.outputTokens += record.outputTokens;
+      bucket.cost += record.cost ?? 0;
+      bucket.latencyTotal += record.latencyMs;
+      bucket.averageLatencyMs = Math.round(bucket.latencyTotal / bucket.calls);
+      buckets.set(key, bucket);
+    }
+
+    return {
+      granularity,
+      buckets: Array.from(buckets.values())
+        .map(({ latencyTotal, ...bucket }) => bucket)
+        .sort((a, b) => b.period.localeCompare(a.period) || a.provider.localeCompare(b.provider)),
+      budgets: this.budgetStatus(providers),
+      recent: this.records.slice(-RECENT_LIMIT).reverse()
+    };
+  }
+
+  private status(scope: string, period: Period, limitUsd: number): BudgetStatus {
+    const current = this.periodKey(new Date(), period);
+    const spentUsd = this.records
+      .filter(record => scope === "all" || record.provider === scope)
+      .filter(record => this.periodKey(new Date(record.at), period) === current)
+      .reduce((sum, record) => sum + (record.cost ?? 0), 0);
+    return { scope, period, limitUsd, spentUsd, exceeded: spentUsd >= limitUsd };
+  }
+
+  // Periods are calendar days and months in UTC
+  private periodKey(date: Date, period: Period): string {
+    const iso = date.toISOString();
+    return period === "day" ? iso.substring(0, 10) : iso.substring(0, 7);
+  }
+}
@@ -0,0 +1,24 @@
+import { timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+// Admin endpoints require ADMIN_TOKEN as a bearer token in the Authorization header; without it they are disabled
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(403).json({ error: "Admin endpoints are disabled: ADMIN_TOKEN is not set" });
+  }
+
+  const token = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!token || !tokensMatch(token, adminToken)) {
+    return res.status(401).json({ error: "Admin token required" });
+  }
+
+  next();
+}
+
+// Constant-time comparison, so response timing does not reveal how much of a guess was right
+function tokensMatch(given: string, expected: string): boolean {
+  const givenBytes = Buffer.from(given);
+  const expectedBytes = Buffer.from(expected);
+  return givenBytes.length === expectedBytes.length && timingSafeEqual(givenBytes, expectedBytes);
+}
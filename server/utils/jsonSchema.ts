@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// JSON Schema for the subset of Zod used by model output schemas, in the strict form
+// providers require: every property listed as required and no additional properties
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    return {
+      type: "object",
+      ...description,
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      required: Object.keys(shape),
+      additionalProperties: false
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", ...description, items: toJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodString) return { type: "string", ...description };
+  if (schema instanceof z.ZodNumber) return { type: "number", ...description };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean", ...description };
+  if (schema instanceof z.ZodEnum) return { type: "string", ...description, enum: schema.options };
+
+  throw new Error(`Cannot convert ${schema.constructor.name} to JSON Schema`);
+}
@@ -0,0 +1,47 @@
+// Yields the payload of each `data:` field from a Server-Sent Events body, stopping at `[DONE]`
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by blank lines; a trailing partial line stays in the buffer
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? "" : lines.pop() || "";
+
+      for (const line of lines) {
+        if (line === "") {
+          if (dataLines.length > 0) {
+            const data = dataLines.join("\n");
+            dataLines = [];
+            if (data.trim() === "[DONE]") return;
+            yield data;
+          }
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        }
+        // Comments (":") and other fields (event, id, retry) carry nothing we need
+      }
+
+      if (done) break;
+    }
+
+    if (dataLines.length > 0) {
+      const data = dataLines.join("\n");
+      if (data.trim() !== "[DONE]") yield data;
+    }
+  } finally {
+    // Stopping early (at [DONE] or because the caller stopped reading) must not leave the connection open
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,31 @@
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Sample standard deviation; 0 for fewer than two values
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+// Percentile bootstrap interval for the mean of the values
+export function bootstrapInterval(values: number[], level: number, resamples: number = 1000, random: () => number = Math.random): [number, number] {
+  const means = Array.from({ length: resamples }, () => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[Math.floor(random() * values.length)];
+    }
+    return sum / values.length;
+  }).sort((a, b) => a - b);
+
+  const tail = (1 - level) / 2;
+  const index = (fraction: number) => Math.min(resamples - 1, Math.max(0, Math.round(fraction * (resamples - 1))));
+  return [means[index(tail)], means[index(1 - tail)]];
+}
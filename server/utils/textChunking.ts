@@ -0,0 +1,169 @@
+import type { ChunkStrategy } from "@shared/schema";
+
+// A stretch of the original text; end is exclusive
+interface Span {
+  start: number;
+  end: number;
+  words: number;
+  // Set on a paragraph that is a heading line on its own
+  heading?: string;
+}
+
+export interface ChunkSpan {
+  start: number;
+  end: number;
+  text: string;
+  wordCount: number;
+  // Heading of the section the chunk starts in, marked " (continued)" unless the chunk opens with it
+  title?: string;
+}
+
+export interface ChunkingOptions {
+  strategy: ChunkStrategy;
+  targetWords: number;
+  // Words repeated at the start of each chunk from the end of the previous one (fixed strategy only)
+  overlapWords?: number;
+}
+
+const MAX_HEADING_LENGTH = 80;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Markdown headings, "Chapter 3"-style lines, numbered section titles and all-caps lines,
+// recognised only when they stand alone as a paragraph
+export function detectHeading(paragraph: string): string | undefined {
+  const line = paragraph.trim();
+  if (!line || line.includes('\n') || line.length > MAX_HEADING_LENGTH) return undefined;
+
+  const markdown = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+  if (markdown) return markdown[1];
+  if (/^(chapter|part|section|book|appendix)\s+[\w.-]+\b/i.test(line)) return line;
+  if (/^\d+(\.\d+)*\.?\s+[A-Z][^.!?]*$/.test(line)) return line;
+  if (/[A-Z]{3}/.test(line) && line === line.toUpperCase() && !/[.!?,;]$/.test(line)) return line;
+  return undefined;
+}
+
+function paragraphSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  const separator = /\n[ \t]*\n\s*/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (end: number) => {
+    const body = text.slice(start, end);
+    const words = countWords(body);
+    if (words > 0) {
+      spans.push({ start, end: start + body.trimEnd().length, words, heading: detectHeading(body) });
+    }
+  };
+
+  while ((match = separator.exec(text)) !== null) {
+    push(match.index);
+    start = match.index + match[0].length;
+  }
+  push(text.length);
+  return spans;
+}
+
+function sentenceSpans(text: string, from: number, to: number): Span[] {
+  const spans: Span[] = [];
+  // A sentence runs to punctuation (plus closing quotes or brackets) that is followed by space, and that space
+  const sentence = /[\s\S]+?(?:[.!?]+["'”’)\]]*(?=\s|$)|$)\s*/g;
+  const slice = text.slice(from, to);
+  let match: RegExpExecArray | null;
+
+  while ((match = sentence.exec(slice)) !== null) {
+    const words = countWords(match[0]);
+    if (words > 0) {
+      spans.push({ start: from + match.index, end: from + match.index + match[0].trimEnd().length, words });
+    }
+  }
+  return spans.length > 0 ? spans : [{ start: from, end: to, words: countWords(slice) }];
+}
+
+function wordSpans(text: string): Span[] {
+  return Array.from(text.matchAll(/\S+/g), match => ({ start: match.index!, end: match.index! + match[0].length, words: 1 }));
+}
+
+// Greedily fills groups up to the target; a unit larger than the target gets a group of its own
+function pack(units: Span[], targetWords: number, breakBefore: (unit: Span, groupWords: number) => boolean = () => false): Span[][] {
+  const groups: Span[][] = [];
+  let current: Span[] = [];
+  let currentWords = 0;
+
+  for (const unit of units) {
+    if (current.length > 0 && (currentWords + unit.words > targetWords || breakBefore(unit, currentWords))) {
+      groups.push(current);
+      current = [];
+      currentWords = 0;
+    }
+    current.push(unit);
+    currentWords += unit.words;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+// Paragraphs longer than the target are broken into their sentences so they can be packed
+function splitLongParagraphs(text: string, paragraphs: Span[], targetWords: number): Span[] {
+  return paragraphs.flatMap(paragraph =>
+    paragraph.words > targetWords ? sentenceSpans(text, paragraph.start, paragraph.end) : [paragraph]);
+}
+
+function chunkByParagraph(text: string, paragraphs: Span[], targetWords: number): Span[][] {
+  // Start a new chunk at a heading once the current one is at least half full
+  return pack(splitLongParagraphs(text, paragraphs, targetWords), targetWords,
+    (unit, groupWords) => unit.heading !== undefined && groupWords >= targetWords / 2);
+}
+
+function chunkByHeading(text: string, paragraphs: Span[], targetWords: number): Span[][] {
+  const sections: Span[][] = [];
+  for (const paragraph of paragraphs) {
+    if (paragraph.heading !== undefined || sections.length === 0) sections.push([]);
+    sections[sections.length - 1].push(paragraph);
+  }
+  // Sections over the target are packed by paragraph on their own
+  return sections.flatMap(section =>
+    section.reduce((words, paragraph) => words + paragraph.words, 0) > targetWords
+      ? pack(splitLongParagraphs(text, section, targetWords), targetWords)
+      : [section]);
+}
+
+function chunkFixed(text: string, targetWords: number, overlapWords: number): Span[][] {
+  const words = wordSpans(text);
+  const step = targetWords - overlapWords;
+  const groups: Span[][] = [];
+  for (let i = 0; i < words.length; i += step) {
+    groups.push(words.slice(i, i + targetWords));
+    if (i + targetWords >= words.length) break;
+  }
+  return groups;
+}
+
+export function chunkText(text: string, { strategy, targetWords, overlapWords = 0 }: ChunkingOptions): ChunkSpan[] {
+  const paragraphs = paragraphSpans(text);
+  const groups =
+    strategy === "sentence" ? pack(sentenceSpans(text, 0, text.length), targetWords)
+    : strategy === "heading" ? chunkByHeading(text, paragraphs, targetWords)
+    : strategy === "fixed" ? chunkFixed(text, targetWords, overlapWords)
+    : chunkByParagraph(text, paragraphs, targetWords);
+
+  const headings = paragraphs.filter(paragraph => paragraph.heading !== undefined);
+  // Whitespace-only groups are dropped; they leave nothing to analyze
+  return groups.map(group => {
+    const end = group[group.length - 1].end;
+    const start = end - text.slice(group[0].start, end).trimStart().length;
+    const chunk = text.slice(start, end);
+    const section = headings.filter(heading => heading.start <= start).pop();
+
+    return {
+      start,
+      end,
+      text: chunk,
+      wordCount: countWords(chunk),
+      title: section && (section.start === start ? section.heading : `${section.heading} (continued)`)
+    };
+  }).filter(chunk => chunk.wordCount > 0);
+}
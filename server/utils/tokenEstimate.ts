@@ -0,0 +1,4 @@
+// Rough token count for English prose (~4 characters per token); provider tokenizers differ by 10-20%
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -1,21 +1,242 @@
 import { z } from "zod";
 
+// USD per million tokens
+export const modelPricingSchema = z.object({
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative()
+});
+
+export const budgetSchema = z.object({
+  dailyUsd: z.number().positive().optional(),
+  monthlyUsd: z.number().positive().optional()
+});
+
+// How the chunks of one analysis are scheduled: how many run at once, the minimum time between
+// starting them, and the pause between the protocol and text pieces announced while streaming
+export const pacingPolicySchema = z.object({
+  maxConcurrency: z.number().int().positive(),
+  minIntervalMs: z.number().int().min(0),
+  deliveryDelayMs: z.number().int().min(0)
+});
+
+// Provider entries are declared in llm-providers.json and loaded by the server at startup
+export const providerConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/, "Provider id must be lowercase letters, digits, '-' or '_'"),
+  label: z.string().min(1),
+  api: z.enum(["openai", "anthropic", "openai-compatible"]),
+  baseUrl: z.string().url().optional(),
+  // Environment variables that, when set, override baseUrl / model
+  baseUrlEnv: z.string().optional(),
+  model: z.string().optional(),
+  modelEnv: z.string().optional(),
+  apiKeyEnv: z.array(z.string()).default([]),
+  // Local servers usually accept unauthenticated requests
+  requiresApiKey: z.boolean().default(true),
+  streaming: z.boolean().default(false),
+  maxOutputTokens: z.number().int().positive(),
+  maxTokensParam: z.enum(["max_tokens", "max_completion_tokens"]).default("max_tokens"),
+  contextWindow: z.number().int().positive().optional(),
+  // Limits for per-request generation overrides; absent allowedModels accepts any model
+  allowedModels: z.array(z.string()).optional(),
+  maxTokensLimit: z.number().int().positive().optional(),
+  temperatureRange: z.tuple([z.number(), z.number()]).optional(),
+  supportsSeed: z.boolean().default(false),
+  extraBody: z.record(z.unknown()).optional(),
+  // How output is constrained to a JSON schema; defaults to json_schema for openai, tool for anthropic, none otherwise
+  structuredOutput: z.enum(["json_schema", "json_object", "tool", "none"]).optional(),
+  // Calls in flight at once across all requests; further calls wait in the shared queue
+  maxConcurrency: z.number().int().positive().default(2),
+  // Overrides the server's chunk pacing defaults for analyses whose primary provider is this one
+  pacing: pacingPolicySchema.partial().optional(),
+  // Keyed by model id; "*" prices any model not listed
+  pricing: z.record(modelPricingSchema).optional(),
+  // Spending caps in USD; new analyses using the provider are refused once reached
+  budget: budgetSchema.optional(),
+  retry: z.object({
+    maxRetries: z.number().int().min(0).default(4),
+    baseDelayMs: z.number().int().positive().default(1000),
+    maxDelayMs: z.number().int().positive().default(60000)
+  }).default({})
+});
+
+export const providerRegistryConfigSchema = z.object({
+  providers: z.array(providerConfigSchema).min(1)
+});
+
+export const providerStatsSchema = z.object({
+  calls: z.number(),
+  failures: z.number(),
+  lastLatencyMs: z.number().optional(),
+  averageLatencyMs: z.number().optional(),
+  lastSuccessAt: z.string().optional(),
+  lastError: z.object({
+    message: z.string(),
+    status: z.number().optional(),
+    at: z.string()
+  }).optional()
+});
+
+export const providerProbeSchema = z.object({
+  ok: z.boolean(),
+  latencyMs: z.number(),
+  error: z.string().optional(),
+  checkedAt: z.string()
+});
+
+export const providerCapabilitiesSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  model: z.string().optional(),
+  streaming: z.boolean(),
+  maxOutputTokens: z.number(),
+  contextWindow: z.number().optional(),
+  allowedModels: z.array(z.string()).optional(),
+  maxTokensLimit: z.number(),
+  temperatureRange: z.tuple([z.number(), z.number()]).optional(),
+  supportsSeed: z.boolean()
+});
+
+export const providerInfoSchema = providerCapabilitiesSchema.extend({
+  // False means calls would go out with a placeholder key
+  credentialsPresent: z.boolean(),
+  probe: providerProbeSchema.optional(),
+  stats: providerStatsSchema,
+  usable: z.boolean(),
+  unusableReason: z.string().optional()
+});
+
+export const generationParamsSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  seed: z.number().int().optional()
+});
+
+// Settings a provider call actually ran with
+export const resolvedGenerationSchema = z.object({
+  model: z.string(),
+  maxTokens: z.number(),
+  temperature: z.number().optional(),
+  seed: z.number().optional()
+});
+
+// paragraph and sentence pack whole units up to the target size, heading starts a chunk at every
+// detected heading, fixed cuts every targetWords words with an optional overlap
+export const chunkStrategySchema = z.enum(["paragraph", "sentence", "heading", "fixed"]);
+
+export const chunkRequestSchema = z.object({
+  text: z.string().min(1),
+  strategy: chunkStrategySchema.default("paragraph"),
+  targetWords: z.number().int().min(50).max(20000).default(1000),
+  overlapWords: z.number().int().min(0).optional()
+}).refine(request => (request.overlapWords ?? 0) < request.targetWords, {
+  message: "overlapWords must be smaller than targetWords",
+  path: ["overlapWords"]
+});
+
+// Analyses of each mode family use a protocol of that family; meta-analysis has its own
+export const protocolModeTypeSchema = z.enum(["cognitive", "psychological", "psychopathological", "meta-analysis"]);
+
+// The editable content of a protocol version, rendered into the analysis prompt in this order:
+// preamble, questions, instructions, scoring notes, addenda, exemplars
+export const protocolContentSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  modeType: protocolModeTypeSchema,
+  systemPrompt: z.string().min(1),
+  // Sent verbatim between the questions header and the questions
+  preamble: z.string().optional(),
+  // Entries are separated by a blank line; the lines of one entry are sent on consecutive lines
+  questions: z.array(z.string().min(1)).min(1),
+  instructions: z.string(),
+  scoringNotes: z.string(),
+  addenda: z.array(z.object({
+    title: z.string().min(1),
+    body: z.string().min(1)
+  })),
+  // Sample passages with what the model should learn from them
+  exemplars: z.array(z.object({
+    label: z.string().min(1),
+    text: z.string().min(1),
+    commentary: z.string()
+  }))
+});
+
+// Versions are never edited; saving a protocol adds a new one
+export const protocolVersionSchema = protocolContentSchema.extend({
+  version: z.number().int().positive(),
+  createdAt: z.string(),
+  changeNote: z.string().optional()
+});
+
+export const protocolSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Protocol ids use lowercase letters, digits and dashes"),
+  versions: z.array(protocolVersionSchema).min(1)
+});
+
+// Body of POST /api/protocols (with id) and PUT /api/protocols/:id
+export const saveProtocolSchema = protocolContentSchema.extend({
+  changeNote: z.string().optional()
+});
+
+export const protocolSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  modeType: protocolModeTypeSchema,
+  latestVersion: z.number(),
+  updatedAt: z.string()
+});
+
+// The protocol version an analysis was run with
+export const protocolRefSchema = z.object({
+  id: z.string(),
+  version: z.number(),
+  name: z.string()
+});
+
 export const analysisRequestSchema = z.object({
   text: z.string().min(1),
   backgroundInfo: z.string().optional(),
   mode: z.enum([
     "cognitive-short",
+    "cognitive-long",
     "psychological-short",
+    "psychological-long",
     "psychopathological-short",
+    "psychopathological-long",
     "meta-analysis"
   ]),
-  llmProvider: z.enum(["zhi1", "zhi2", "zhi3", "zhi4"]),
+  // Defaults to the latest version of the protocol named after the mode family (e.g. "cognitive")
+  protocolId: z.string().min(1).optional(),
+  protocolVersion: z.number().int().positive().optional(),
+  // Long modes challenge every initial score below this in a pushback phase (default 95)
+  pushbackThreshold: z.number().min(0).max(100).optional(),
+  // Runs the analysis on each of these providers and combines the results; overrides fallbackProviders.
+  // Scores are compared per provider, so each may appear only once
+  consensusProviders: z.array(z.string().min(1)).min(2)
+    .refine(providers => new Set(providers).size === providers.length, "consensusProviders must not repeat a provider")
+    .optional(),
+  // Score spread (max - min) across providers above which a question is flagged (default 15)
+  disagreementThreshold: z.number().min(0).max(100).optional(),
+  // Runs the analysis (each chunk, when chunked) this many times and reports the score distribution
+  samples: z.number().int().min(2).max(20).optional(),
+  // Checked against the provider registry by the server
+  llmProvider: z.string().min(1),
+  // Tried in order when llmProvider still fails after retries
+  fallbackProviders: z.array(z.string().min(1)).optional(),
+  // Model applies to llmProvider only; the rest are checked against every provider in the chain
+  ...generationParamsSchema.shape,
   chunks: z.array(z.object({
     id: z.string(),
     text: z.string(),
+    // Labels the chunk in progress messages and results (default "Chunk N")
+    title: z.string().optional(),
     selected: z.boolean()
   })).optional(),
   critique: z.string().optional(),
+  // "bypass" neither reads nor writes the response cache; "fresh" skips the lookup but stores the new result
+  cachePolicy: z.enum(["use", "bypass", "fresh"]).optional(),
   originalAnalysis: z.object({
     id: z.string(),
     summary: z.string(),
@@ -32,6 +253,99 @@ export const analysisRequestSchema = z.object({
   }).optional()
 });
 
+// How the model's answer was turned into a result: provider-enforced JSON, JSON found in free text, or the regex fallback
+export const outputPathSchema = z.enum(["structured-output", "json-text", "text-fallback"]);
+
+// One pass of a long-mode assessment; the result's own fields come from the last phase
+export const assessmentPhaseSchema = z.object({
+  phase: z.enum(["initial", "pushback", "reconciliation"]),
+  provider: z.string().optional(),
+  overallScore: z.number(),
+  summary: z.string(),
+  category: z.string(),
+  questions: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    score: z.number()
+  })),
+  finalAssessment: z.string(),
+  rawResponse: z.string(),
+  // Questions whose initial score fell below the pushback threshold
+  challenged: z.array(z.string()).optional()
+});
+
+// How the providers of a consensus run scored one question (or the overall score)
+export const scoreSpreadSchema = z.object({
+  // Keyed by provider id
+  scores: z.record(z.number()),
+  mean: z.number(),
+  median: z.number(),
+  min: z.number(),
+  max: z.number(),
+  spread: z.number(),
+  disagreement: z.boolean()
+});
+
+export const consensusSchema = z.object({
+  threshold: z.number(),
+  overall: scoreSpreadSchema,
+  questions: z.array(scoreSpreadSchema.extend({ question: z.string() })),
+  // One entry per requested provider; resultId points at the provider's own stored result
+  members: z.array(z.object({
+    provider: z.string(),
+    resultId: z.string().optional(),
+    overallScore: z.number().optional(),
+    error: z.string().optional()
+  }))
+});
+
+// One assessment in the synthesis of a chunked analysis: a chunk's own, or the model's integration of several
+export const synthesisNodeSchema = z.object({
+  title: z.string(),
+  // Titles of the chunks this assessment covers
+  sources: z.array(z.string()),
+  // The chunk's stored result (first level only)
+  resultId: z.string().optional(),
+  overallScore: z.number(),
+  summary: z.string(),
+  category: z.string(),
+  questions: z.array(z.object({
+    question: z.string(),
+    answer: z.string(),
+    score: z.number()
+  })),
+  finalAssessment: z.string()
+});
+
+export const synthesisSchema = z.object({
+  // "average" when the model was not asked (a single chunk) or its synthesis failed
+  method: z.enum(["model", "average"]),
+  // levels[0] holds the chunk assessments; each later level integrates groups of the one before
+  levels: z.array(z.array(synthesisNodeSchema)),
+  error: z.string().optional()
+});
+
+// Scores a question (or the overall score) received across repeated runs of one analysis
+export const sampleDistributionSchema = z.object({
+  values: z.array(z.number()),
+  mean: z.number(),
+  sd: z.number(),
+  min: z.number(),
+  max: z.number(),
+  // Bootstrap interval for the mean at the sampling confidence level
+  interval: z.tuple([z.number(), z.number()])
+});
+
+export const samplingSchema = z.object({
+  runs: z.number(),
+  requestedRuns: z.number(),
+  confidenceLevel: z.number(),
+  overall: sampleDistributionSchema,
+  questions: z.array(sampleDistributionSchema.extend({ question: z.string() })),
+  // Every run's own stored result, in run order
+  resultIds: z.array(z.string())
+});
+
 export const analysisResultSchema = z.object({
   id: z.string(),
   mode: z.string(),
@@ -46,7 +360,179 @@ export const analysisResultSchema = z.object({
   })),
   finalAssessment: z.string(),
   timestamp: z.string(),
-  rawResponse: z.string()
+  rawResponse: z.string(),
+  // Provider that actually produced a single-text result (differs from llmProvider after failover)
+  providerUsed: z.string().optional(),
+  generation: resolvedGenerationSchema.optional(),
+  chunkOutcomes: z.array(z.object({
+    chunkId: z.string(),
+    chunkTitle: z.string(),
+    provider: z.string().optional(),
+    model: z.string().optional(),
+    error: z.string().optional(),
+    fromCache: z.boolean().optional(),
+    outputPath: outputPathSchema.optional(),
+    repairAttempts: z.number().int().optional(),
+    sampling: samplingSchema.optional()
+  })).optional(),
+  protocol: protocolRefSchema.optional(),
+  // The chunks were checkpointed, so failed ones can be retried with POST /api/results/:id/retry-failed
+  checkpointed: z.boolean().optional(),
+  // Set when the client disconnected mid-run; rawResponse then holds only the partial output
+  cancelled: z.boolean().optional(),
+  // Served from the response cache; cachedAt is when the cached result was originally produced
+  fromCache: z.boolean().optional(),
+  cachedAt: z.string().optional(),
+  outputPath: outputPathSchema.optional(),
+  // Times the model was asked to correct a malformed response before it could be parsed
+  repairAttempts: z.number().int().optional(),
+  phases: z.array(assessmentPhaseSchema).optional(),
+  consensus: consensusSchema.optional(),
+  // Repeated runs of a single text; scores are then the run means
+  sampling: samplingSchema.optional(),
+  synthesis: synthesisSchema.optional()
+});
+
+// The part of a result the model itself produces; sent to providers as the structured output schema
+export const analysisOutputSchema = analysisResultSchema.pick({
+  summary: true,
+  category: true,
+  overallScore: true,
+  questions: true,
+  finalAssessment: true
+});
+
+export const jobStatusSchema = z.enum(["running", "completed", "failed", "cancelled"]);
+
+// A background analysis started with POST /api/jobs; it keeps running without a connected client
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  status: jobStatusSchema,
+  mode: z.string(),
+  llmProvider: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  // Id of the latest event on GET /api/jobs/:id/events
+  lastEventId: z.number().int(),
+  // Latest progress message
+  message: z.string().optional(),
+  phase: z.string().optional(),
+  // Output of every provider call completed so far (one per chunk or phase), in completion order
+  partialResults: z.array(z.object({
+    label: z.string().optional(),
+    result: z.record(z.unknown())
+  })),
+  result: analysisResultSchema.optional(),
+  error: z.string().optional()
+});
+
+// Same body as /api/analyze; providers lists every provider the job will run on (default: llmProvider)
+export const estimateRequestSchema = analysisRequestSchema.extend({
+  providers: z.array(z.string().min(1)).optional()
+});
+
+export const costEstimateSchema = z.object({
+  calls: z.array(z.object({
+    chunkId: z.string().optional(),
+    chunkTitle: z.string(),
+    provider: z.string(),
+    model: z.string(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    // Absent when the provider has no price for the model
+    cost: z.number().optional()
+  })),
+  totals: z.object({
+    calls: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cost: z.number()
+  }),
+  currency: z.literal("USD"),
+  unpricedModels: z.array(z.string()),
+  warnings: z.array(z.string()),
+  confirmThreshold: z.number(),
+  requiresConfirmation: z.boolean()
+});
+
+// The exact prompts /api/analyze would send, without calling a provider
+export const promptPreviewSchema = z.object({
+  protocol: protocolRefSchema,
+  calls: z.array(z.object({
+    chunkId: z.string().optional(),
+    chunkTitle: z.string(),
+    // Absent when the call sends no system prompt
+    systemPrompt: z.string().optional(),
+    prompt: z.string(),
+    characters: z.number(),
+    tokens: z.number()
+  })),
+  totals: z.object({
+    calls: z.number(),
+    characters: z.number(),
+    tokens: z.number()
+  }),
+  // Later calls whose prompts quote earlier answers, so they cannot be shown in advance
+  notes: z.array(z.string())
+});
+
+export const queueSnapshotSchema = z.object({
+  providers: z.array(z.object({
+    provider: z.string(),
+    maxConcurrency: z.number(),
+    active: z.array(z.object({
+      jobId: z.string(),
+      label: z.string(),
+      startedAt: z.string()
+    })),
+    waiting: z.array(z.object({
+      jobId: z.string(),
+      label: z.string(),
+      enqueuedAt: z.string(),
+      position: z.number()
+    }))
+  }))
+});
+
+export const usageRecordSchema = z.object({
+  at: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  mode: z.string().optional(),
+  analysisId: z.string().optional(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  // True when the provider reported no usage and tokens were estimated from the text
+  tokensEstimated: z.boolean(),
+  latencyMs: z.number(),
+  cost: z.number().optional(),
+  ok: z.boolean(),
+  error: z.string().optional()
+});
+
+export const budgetStatusSchema = z.object({
+  // "all" for the team-wide cap
+  scope: z.string(),
+  period: z.enum(["day", "month"]),
+  limitUsd: z.number(),
+  spentUsd: z.number(),
+  exceeded: z.boolean()
+});
+
+export const usageSummarySchema = z.object({
+  granularity: z.enum(["day", "month"]),
+  buckets: z.array(z.object({
+    period: z.string(),
+    provider: z.string(),
+    calls: z.number(),
+    failures: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cost: z.number(),
+    averageLatencyMs: z.number()
+  })),
+  budgets: z.array(budgetStatusSchema),
+  recent: z.array(usageRecordSchema)
 });
 
 export const fileUploadSchema = z.object({
@@ -57,4 +543,41 @@ export const fileUploadSchema = z.object({
 
 export type AnalysisRequest = z.infer<typeof analysisRequestSchema>;
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
+export type AnalysisOutput = z.infer<typeof analysisOutputSchema>;
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+export type OutputPath = z.infer<typeof outputPathSchema>;
+export type AssessmentPhase = z.infer<typeof assessmentPhaseSchema>;
+export type ScoreSpread = z.infer<typeof scoreSpreadSchema>;
+export type Consensus = z.infer<typeof consensusSchema>;
+export type ChunkStrategy = z.infer<typeof chunkStrategySchema>;
+export type ChunkRequest = z.infer<typeof chunkRequestSchema>;
+export type SynthesisNode = z.infer<typeof synthesisNodeSchema>;
+export type Synthesis = z.infer<typeof synthesisSchema>;
+export type SampleDistribution = z.infer<typeof sampleDistributionSchema>;
+export type Sampling = z.infer<typeof samplingSchema>;
 export type FileUpload = z.infer<typeof fileUploadSchema>;
+export type ProtocolModeType = z.infer<typeof protocolModeTypeSchema>;
+export type ProtocolContent = z.infer<typeof protocolContentSchema>;
+export type ProtocolVersion = z.infer<typeof protocolVersionSchema>;
+export type Protocol = z.infer<typeof protocolSchema>;
+export type SaveProtocol = z.infer<typeof saveProtocolSchema>;
+export type ProtocolSummary = z.infer<typeof protocolSummarySchema>;
+export type ProtocolRef = z.infer<typeof protocolRefSchema>;
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type PacingPolicy = z.infer<typeof pacingPolicySchema>;
+export type ProviderCapabilities = z.infer<typeof providerCapabilitiesSchema>;
+export type ProviderInfo = z.infer<typeof providerInfoSchema>;
+export type ProviderStats = z.infer<typeof providerStatsSchema>;
+export type ProviderProbe = z.infer<typeof providerProbeSchema>;
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+export type EstimateRequest = z.infer<typeof estimateRequestSchema>;
+export type CostEstimate = z.infer<typeof costEstimateSchema>;
+export type PromptPreview = z.infer<typeof promptPreviewSchema>;
+export type QueueSnapshot = z.infer<typeof queueSnapshotSchema>;
+export type Budget = z.infer<typeof budgetSchema>;
+export type UsageRecord = z.infer<typeof usageRecordSchema>;
+export type BudgetStatus = z.infer<typeof budgetStatusSchema>;
+export type UsageSummary = z.infer<typeof usageSummarySchema>;
+export type ResolvedGeneration = z.infer<typeof resolvedGenerationSchema>;